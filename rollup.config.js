@@ -1,41 +1,47 @@
 import dts from 'rollup-plugin-dts'
 import esbuild from 'rollup-plugin-esbuild'
 
+// One build for all entries, so whatever they share (error classes in particular) lives in
+// a common chunk instead of being copied into each of them. `instanceof` depends on it.
+const input = {
+    index: 'src/index.ts',
+    types: 'src/types.ts',
+    utils: 'src/utils/index.ts',
+    errors: 'src/errors/index.ts',
+    codecs: 'src/codecs/index.ts',
+    testing: 'src/testing/index.ts',
+    profile: 'src/profile/index.ts',
+    mmr: 'src/mmr/index.ts',
+    shot: 'src/shot/index.ts',
+    traffic: 'src/traffic/index.ts',
+    metrics: 'src/metrics/index.ts',
+}
+
 function bundle(config) {
     return {
         ...config,
+        input,
         external: ['events'],
     }
 }
 
-function pair(name, as = name) {
-    return [
-        bundle({
-            input: `src/${name}.ts`,
-            plugins: [esbuild()],
-            output: [
-                {
-                    file: `${as}.mjs`,
-                    format: 'es',
-                },
-            ],
-        }),
-        bundle({
-            input: `src/${name}.ts`,
-            plugins: [dts()],
-            output: [
-                {
-                    file: `${as}.d.ts`,
-                    format: 'es',
-                },
-            ],
-        }),
-    ]
-}
-
 export default [
-    ...pair('index'),
-    ...pair('types'),
-    ...pair('utils/index', 'utils'),
-    ...pair('errors/index', 'errors'),
+    bundle({
+        plugins: [esbuild()],
+        output: {
+            dir: '.',
+            format: 'es',
+            entryFileNames: '[name].mjs',
+            chunkFileNames: 'chunks/[name]-[hash].mjs',
+        },
+    }),
+    bundle({
+        plugins: [dts()],
+        output: {
+            dir: '.',
+            format: 'es',
+            entryFileNames: '[name].d.ts',
+            chunkFileNames: 'chunks/[name]-[hash].d.ts',
+        },
+    }),
 ]
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import CafeHubPool from './CafeHubPool'
+import AbortError from './errors/AbortError'
+import HubNotFoundError from './errors/HubNotFoundError'
+import MockCafeHub from './testing/MockCafeHub'
+import MockDe1 from './testing/MockDe1'
+import { CafeHubPoolEvent, CharAddr, HubDescriptor, MachineState, RequestCommand } from './types'
+import toBase64 from './utils/toBase64'
+
+const Kitchen: HubDescriptor = {
+    id: 'kitchen',
+    url: 'ws://kitchen.local:8765',
+}
+
+const Bar: HubDescriptor = {
+    id: 'bar',
+    url: 'ws://bar.local:8765',
+}
+
+describe('CafeHubPool', () => {
+    let hubs: Record<string, MockCafeHub>
+
+    let pool: CafeHubPool
+
+    let added: HubDescriptor[]
+
+    let removed: HubDescriptor[]
+
+    beforeEach(() => {
+        hubs = {
+            [Kitchen.id]: new MockCafeHub(),
+            [Bar.id]: new MockCafeHub(),
+        }
+
+        pool = new CafeHubPool({
+            hubs: [Kitchen, Bar],
+            clientOptions: ({ id }) => ({
+                webSocketFactory: hubs[id].webSocketFactory,
+            }),
+        })
+
+        added = []
+
+        removed = []
+
+        pool.on(CafeHubPoolEvent.HubAdded, (hub) => void added.push(hub))
+
+        pool.on(CafeHubPoolEvent.HubRemoved, (hub) => void removed.push(hub))
+    })
+
+    afterEach(() => {
+        pool.teardown()
+    })
+
+    it('connects to every hub', async () => {
+        expect(await pool.discover()).toEqual([Kitchen, Bar])
+
+        expect(pool.getHubs()).toEqual([Kitchen, Bar])
+
+        expect(added).toEqual([Kitchen, Bar])
+    })
+
+    it('leaves out hubs that fail to connect', async () => {
+        hubs[Bar.id].online = false
+
+        expect(await pool.discover()).toEqual([Kitchen])
+
+        expect(pool.getHubs()).toEqual([Kitchen])
+
+        expect(added).toEqual([Kitchen])
+
+        expect(removed).toEqual([])
+    })
+
+    it('removes hubs', async () => {
+        await pool.discover()
+
+        pool.removeHub(Kitchen.id)
+
+        expect(pool.getHubs()).toEqual([Bar])
+
+        expect(pool.getClient(Kitchen.id)).toBeUndefined()
+
+        expect(removed).toEqual([Kitchen])
+    })
+
+    it('drops hubs removed while connecting', async () => {
+        hubs[Kitchen.id].latency = 20
+
+        const adding = pool.addHub(Kitchen)
+
+        pool.removeHub(Kitchen.id)
+
+        await expect(adding).rejects.toBeInstanceOf(AbortError)
+
+        expect(pool.getHubs()).toEqual([])
+
+        expect(added).toEqual([])
+
+        expect(removed).toEqual([Kitchen])
+    })
+
+    it('drops hubs torn down while connecting', async () => {
+        hubs[Kitchen.id].latency = 20
+
+        const adding = pool.addHub(Kitchen)
+
+        pool.teardown()
+
+        await expect(adding).rejects.toBeInstanceOf(AbortError)
+
+        expect(added).toEqual([])
+    })
+
+    describe('routing', () => {
+        let kitchenDe1: MockDe1
+
+        let barDe1: MockDe1
+
+        beforeEach(async () => {
+            // The same machine, in range of both hubs.
+            kitchenDe1 = new MockDe1()
+
+            barDe1 = new MockDe1()
+
+            kitchenDe1.setState(MachineState.Idle)
+
+            barDe1.setState(MachineState.Idle)
+
+            hubs[Kitchen.id].addDevice(kitchenDe1)
+
+            hubs[Bar.id].addDevice(barDe1)
+
+            await pool.discover()
+
+            await Promise.all([Kitchen, Bar].map(({ id }) => pool.getClient(id)?.scan().devices))
+        })
+
+        it('sends requests through the hub the device is connected through', async () => {
+            await pool.getClient(Bar.id)?.gattConnect(barDe1.mac)
+
+            expect(pool.getDevice(barDe1.mac)?.hubId).toBe(Bar.id)
+
+            await pool.sendRequest({
+                command: RequestCommand.GATTWrite,
+                params: {
+                    MAC: barDe1.mac,
+                    Char: CharAddr.RequestedState,
+                    Data: toBase64(new Uint8Array([MachineState.Sleep])),
+                    RR: true,
+                },
+            })
+
+            expect(barDe1.get(CharAddr.StateInfo).state).toBe(MachineState.Sleep)
+
+            expect(kitchenDe1.get(CharAddr.StateInfo).state).toBe(MachineState.Idle)
+        })
+
+        it('fails over to another hub that sees the device', async () => {
+            await pool.getClient(Bar.id)?.gattConnect(barDe1.mac)
+
+            pool.removeHub(Bar.id)
+
+            expect(pool.getDevice(kitchenDe1.mac)?.hubId).toBe(Kitchen.id)
+
+            await pool.sendRequest({
+                command: RequestCommand.GATTConnect,
+                params: {
+                    MAC: kitchenDe1.mac,
+                },
+            })
+
+            expect(hubs[Kitchen.id].isConnected(kitchenDe1.mac)).toBe(true)
+        })
+
+        it('rejects requests for devices no hub has seen', () => {
+            expect(() =>
+                pool.subscribe('D9:B2:48:00:00:09', CharAddr.StateInfo, () => void 0)
+            ).toThrow(HubNotFoundError)
+        })
+    })
+})
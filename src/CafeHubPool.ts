@@ -0,0 +1,567 @@
+import { EventEmitter } from 'events'
+import CafeHubClient from './index'
+import AbortError from './errors/AbortError'
+import HubNotFoundError from './errors/HubNotFoundError'
+import {
+    CafeHubEvent,
+    CafeHubPoolEvent,
+    CafeHubPoolOptions,
+    CafeHubState,
+    CharAddr,
+    CharChange,
+    CharListener,
+    ClientOptions,
+    ConnectionDeadEvent,
+    ConnectionState,
+    ConnectOptions,
+    Device,
+    GATTNotifyUpdate,
+    HubDescriptor,
+    HubResolver,
+    MetricsSnapshot,
+    PoolDevice,
+    PoolSendOptions,
+    ProtocolErrorEvent,
+    ReconnectFailedEvent,
+    ReconnectingEvent,
+    ReplyFor,
+    Request,
+    ResponseMessage,
+    SendOptions,
+    Session,
+    SessionRestoreFailedEvent,
+    UpdateMessage,
+} from './types'
+
+interface Hub extends HubDescriptor {
+    client: CafeHubClient
+    // Listeners forwarding the client's events, by event name.
+    forwarders: [CafeHubEvent, (...args: any[]) => void][]
+}
+
+// Manages connections to many hubs. Events of every hub are re-emitted with the hub id as the
+// first argument, and requests go to whichever hub can see the device they're about.
+export default class CafeHubPool extends EventEmitter {
+    private readonly hubs = new Map<string, Hub>()
+
+    private readonly staticHubs: HubDescriptor[]
+
+    private readonly resolvers: HubResolver[]
+
+    private readonly clientOptions: CafeHubPoolOptions['clientOptions']
+
+    private readonly connectOptions: undefined | ConnectOptions
+
+    constructor({
+        hubs = [],
+        resolvers = [],
+        clientOptions,
+        connectOptions,
+    }: CafeHubPoolOptions = {}) {
+        super()
+
+        this.staticHubs = hubs
+
+        this.resolvers = resolvers
+
+        this.clientOptions = clientOptions
+
+        this.connectOptions = connectOptions
+    }
+
+    // Connects to the static hubs and to whatever the resolvers find. Hubs that fail to connect
+    // are reported through `CafeHubEvent.Error` (if anybody listens) and left out.
+    async discover() {
+        const found: HubDescriptor[] = [...this.staticHubs]
+
+        await Promise.all(
+            this.resolvers.map(async (resolve) => {
+                try {
+                    found.push(...(await resolve()))
+                } catch (e) {
+                    this.reportError(e)
+                }
+            })
+        )
+
+        const added: HubDescriptor[] = []
+
+        await Promise.all(
+            found
+                .filter(
+                    ({ id }, i) => !this.hubs.has(id) && found.findIndex((h) => h.id === id) === i
+                )
+                .map(async (hub) => {
+                    try {
+                        await this.addHub(hub)
+
+                        added.push(hub)
+                    } catch (e) {
+                        this.reportError(e)
+                    }
+                })
+        )
+
+        return added
+    }
+
+    async addHub({ id, url }: HubDescriptor) {
+        const existing = this.hubs.get(id)
+
+        if (existing) {
+            return existing.client
+        }
+
+        const clientOptions: ClientOptions | undefined =
+            typeof this.clientOptions === 'function'
+                ? this.clientOptions({ id, url })
+                : this.clientOptions
+
+        const client = new CafeHubClient(clientOptions)
+
+        const hub: Hub = {
+            id,
+            url,
+            client,
+            forwarders: (Object.keys(CafeHubEvent) as (keyof typeof CafeHubEvent)[]).map((key) => [
+                CafeHubEvent[key],
+                (...args: any[]) => {
+                    // Unhandled `error` events throw in Node.
+                    if (key !== 'Error' || this.listenerCount(CafeHubEvent.Error) > 0) {
+                        this.emit(CafeHubEvent[key], id, ...args)
+                    }
+                },
+            ]),
+        }
+
+        // Through `EventEmitter` to get past the per-event overloads.
+        const emitter: EventEmitter = client
+
+        hub.forwarders.forEach(([eventName, listener]) => void emitter.on(eventName, listener))
+
+        this.hubs.set(id, hub)
+
+        try {
+            await client.connect(url, this.connectOptions)
+        } catch (e) {
+            // It never made it in, so there's no `HubRemoved` either.
+            if (this.hubs.get(id) === hub) {
+                this.detach(hub)
+            }
+
+            throw e
+        }
+
+        // Removed (and torn down) while connecting. `connect` takes that for a regular end.
+        if (this.hubs.get(id) !== hub) {
+            throw new AbortError()
+        }
+
+        this.emit(CafeHubPoolEvent.HubAdded, { id, url })
+
+        return client
+    }
+
+    removeHub(id: string) {
+        const hub = this.hubs.get(id)
+
+        if (!hub) {
+            return
+        }
+
+        this.detach(hub)
+
+        this.emit(CafeHubPoolEvent.HubRemoved, {
+            id,
+            url: hub.url,
+        })
+    }
+
+    teardown() {
+        ;[...this.hubs.keys()].forEach((id) => void this.removeHub(id))
+    }
+
+    getHubs(): HubDescriptor[] {
+        return [...this.hubs.values()].map(({ id, url }) => ({ id, url }))
+    }
+
+    getClient(hubId: string): undefined | CafeHubClient {
+        return this.hubs.get(hubId)?.client
+    }
+
+    // Every device of every hub. A device seen by many hubs is listed once for each.
+    getDevices(): PoolDevice[] {
+        const devices: PoolDevice[] = []
+
+        this.hubs.forEach(({ id, client }) => {
+            client.getDevices().forEach((device) => {
+                devices.push({
+                    ...device,
+                    hubId: id,
+                })
+            })
+        })
+
+        return devices
+    }
+
+    // Prefers the hub the device is connected through.
+    getDevice(mac: string): undefined | PoolDevice {
+        const candidates = this.getDevices().filter(({ MAC }) => MAC === mac)
+
+        return (
+            candidates.find(
+                ({ connectionState }) => connectionState === ConnectionState.Connected
+            ) || candidates[0]
+        )
+    }
+
+    private detach(hub: Hub) {
+        this.hubs.delete(hub.id)
+
+        const emitter: EventEmitter = hub.client
+
+        hub.forwarders.forEach(([eventName, listener]) => void emitter.off(eventName, listener))
+
+        hub.client.teardown()
+    }
+
+    private getClientFor(mac: undefined | string, hubId?: string) {
+        if (hubId !== undefined) {
+            const client = this.getClient(hubId)
+
+            if (!client) {
+                throw new HubNotFoundError(`Unknown hub: ${hubId}`)
+            }
+
+            return client
+        }
+
+        const device = mac === undefined ? undefined : this.getDevice(mac)
+
+        const hub = device && this.hubs.get(device.hubId)
+
+        if (!hub) {
+            throw new HubNotFoundError(
+                mac === undefined ? 'No MAC to route by' : `No hub has seen ${mac}`
+            )
+        }
+
+        return hub.client
+    }
+
+    sendRequest<R extends Request>(
+        request: R,
+        { hubId, ...options }: PoolSendOptions = {}
+    ): Promise<ReplyFor<R>> {
+        const { MAC } = request.params as { MAC?: unknown }
+
+        return this.getClientFor(typeof MAC === 'string' ? MAC : undefined, hubId).sendRequest(
+            request,
+            options
+        )
+    }
+
+    subscribe<C extends CharAddr>(
+        mac: string,
+        char: C,
+        listener: CharListener<C>,
+        options?: SendOptions
+    ) {
+        return this.getClientFor(mac).subscribe(mac, char, listener, options)
+    }
+
+    private reportError(e: unknown) {
+        if (this.listenerCount(CafeHubEvent.Error) > 0) {
+            this.emit(CafeHubEvent.Error, undefined, e)
+        }
+    }
+
+    on(
+        eventName: CafeHubEvent.CharChange,
+        listener: (hubId: string, message: GATTNotifyUpdate) => void
+    ): this
+
+    on(eventName: CafeHubEvent.Connect, listener: (hubId: string) => void): this
+
+    on(
+        eventName: CafeHubEvent.ConnectionDead,
+        listener: (hubId: string, event: ConnectionDeadEvent) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.Data,
+        listener: (hubId: string, data: Record<string, unknown>) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.DecodedCharChange,
+        listener: (hubId: string, change: CharChange) => void
+    ): this
+
+    on(eventName: CafeHubEvent.DeviceFound, listener: (hubId: string, device: Device) => void): this
+
+    on(eventName: CafeHubEvent.DeviceLost, listener: (hubId: string, device: Device) => void): this
+
+    on(
+        eventName: CafeHubEvent.DeviceUpdate,
+        listener: (hubId: string, device: Device) => void
+    ): this
+
+    on(eventName: CafeHubEvent.Disconnect, listener: (hubId: string) => void): this
+
+    on(
+        eventName: CafeHubEvent.Error,
+        listener: (hubId: undefined | string, error: Error) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.Metrics,
+        listener: (hubId: string, metrics: MetricsSnapshot) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.ProtocolError,
+        listener: (hubId: string, event: ProtocolErrorEvent) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.ReconnectFailed,
+        listener: (hubId: string, event: ReconnectFailedEvent) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.Reconnecting,
+        listener: (hubId: string, event: ReconnectingEvent) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.ResponseMessage,
+        listener: (hubId: string, message: ResponseMessage) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.SessionRestoreFailed,
+        listener: (hubId: string, event: SessionRestoreFailedEvent) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.SessionRestored,
+        listener: (hubId: string, session: Session) => void
+    ): this
+
+    on(
+        eventName: CafeHubEvent.StateChange,
+        listener: (hubId: string, state: CafeHubState) => void
+    ): this
+
+    on(eventName: CafeHubEvent.Teardown, listener: (hubId: string) => void): this
+
+    on(
+        eventName: CafeHubEvent.UpdateMessage,
+        listener: (hubId: string, message: UpdateMessage) => void
+    ): this
+
+    on(eventName: CafeHubPoolEvent.HubAdded, listener: (hub: HubDescriptor) => void): this
+
+    on(eventName: CafeHubPoolEvent.HubRemoved, listener: (hub: HubDescriptor) => void): this
+
+    on(eventName: string, listener: (...args: any[]) => void) {
+        return super.on(eventName, listener)
+    }
+
+    once(
+        eventName: CafeHubEvent.CharChange,
+        listener: (hubId: string, message: GATTNotifyUpdate) => void
+    ): this
+
+    once(eventName: CafeHubEvent.Connect, listener: (hubId: string) => void): this
+
+    once(
+        eventName: CafeHubEvent.ConnectionDead,
+        listener: (hubId: string, event: ConnectionDeadEvent) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.Data,
+        listener: (hubId: string, data: Record<string, unknown>) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.DecodedCharChange,
+        listener: (hubId: string, change: CharChange) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.DeviceFound,
+        listener: (hubId: string, device: Device) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.DeviceLost,
+        listener: (hubId: string, device: Device) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.DeviceUpdate,
+        listener: (hubId: string, device: Device) => void
+    ): this
+
+    once(eventName: CafeHubEvent.Disconnect, listener: (hubId: string) => void): this
+
+    once(
+        eventName: CafeHubEvent.Error,
+        listener: (hubId: undefined | string, error: Error) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.Metrics,
+        listener: (hubId: string, metrics: MetricsSnapshot) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.ProtocolError,
+        listener: (hubId: string, event: ProtocolErrorEvent) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.ReconnectFailed,
+        listener: (hubId: string, event: ReconnectFailedEvent) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.Reconnecting,
+        listener: (hubId: string, event: ReconnectingEvent) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.ResponseMessage,
+        listener: (hubId: string, message: ResponseMessage) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.SessionRestoreFailed,
+        listener: (hubId: string, event: SessionRestoreFailedEvent) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.SessionRestored,
+        listener: (hubId: string, session: Session) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.StateChange,
+        listener: (hubId: string, state: CafeHubState) => void
+    ): this
+
+    once(eventName: CafeHubEvent.Teardown, listener: (hubId: string) => void): this
+
+    once(
+        eventName: CafeHubEvent.UpdateMessage,
+        listener: (hubId: string, message: UpdateMessage) => void
+    ): this
+
+    once(eventName: CafeHubPoolEvent.HubAdded, listener: (hub: HubDescriptor) => void): this
+
+    once(eventName: CafeHubPoolEvent.HubRemoved, listener: (hub: HubDescriptor) => void): this
+
+    once(eventName: string, listener: (...args: any[]) => void) {
+        return super.once(eventName, listener)
+    }
+
+    off(
+        eventName: CafeHubEvent.CharChange,
+        listener: (hubId: string, message: GATTNotifyUpdate) => void
+    ): this
+
+    off(eventName: CafeHubEvent.Connect, listener: (hubId: string) => void): this
+
+    off(
+        eventName: CafeHubEvent.ConnectionDead,
+        listener: (hubId: string, event: ConnectionDeadEvent) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.Data,
+        listener: (hubId: string, data: Record<string, unknown>) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.DecodedCharChange,
+        listener: (hubId: string, change: CharChange) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.DeviceFound,
+        listener: (hubId: string, device: Device) => void
+    ): this
+
+    off(eventName: CafeHubEvent.DeviceLost, listener: (hubId: string, device: Device) => void): this
+
+    off(
+        eventName: CafeHubEvent.DeviceUpdate,
+        listener: (hubId: string, device: Device) => void
+    ): this
+
+    off(eventName: CafeHubEvent.Disconnect, listener: (hubId: string) => void): this
+
+    off(
+        eventName: CafeHubEvent.Error,
+        listener: (hubId: undefined | string, error: Error) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.Metrics,
+        listener: (hubId: string, metrics: MetricsSnapshot) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.ProtocolError,
+        listener: (hubId: string, event: ProtocolErrorEvent) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.ReconnectFailed,
+        listener: (hubId: string, event: ReconnectFailedEvent) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.Reconnecting,
+        listener: (hubId: string, event: ReconnectingEvent) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.ResponseMessage,
+        listener: (hubId: string, message: ResponseMessage) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.SessionRestoreFailed,
+        listener: (hubId: string, event: SessionRestoreFailedEvent) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.SessionRestored,
+        listener: (hubId: string, session: Session) => void
+    ): this
+
+    off(
+        eventName: CafeHubEvent.StateChange,
+        listener: (hubId: string, state: CafeHubState) => void
+    ): this
+
+    off(eventName: CafeHubEvent.Teardown, listener: (hubId: string) => void): this
+
+    off(
+        eventName: CafeHubEvent.UpdateMessage,
+        listener: (hubId: string, message: UpdateMessage) => void
+    ): this
+
+    off(eventName: CafeHubPoolEvent.HubAdded, listener: (hub: HubDescriptor) => void): this
+
+    off(eventName: CafeHubPoolEvent.HubRemoved, listener: (hub: HubDescriptor) => void): this
+
+    off(eventName: string, listener: (...args: any[]) => void) {
+        return super.off(eventName, listener)
+    }
+}
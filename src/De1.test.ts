@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import De1 from './De1'
+import CafeHubClient from './index'
+import CafeHubRequestError from './errors/CafeHubRequestError'
+import DeviceConnectionError from './errors/DeviceConnectionError'
+import MockCafeHub from './testing/MockCafeHub'
+import MockDe1 from './testing/MockDe1'
+import {
+    CharAddr,
+    ConnectionState,
+    De1Event,
+    MachineState,
+    MachineSubstate,
+    RequestCommand,
+    ShotSample,
+    StateInfo,
+} from './types'
+
+const Sample: ShotSample = {
+    sampleTime: 100,
+    groupPressure: 8.5,
+    groupFlow: 2.25,
+    mixTemp: 92.5,
+    headTemp: 93,
+    setMixTemp: 92,
+    setHeadTemp: 93,
+    setGroupPressure: 9,
+    setGroupFlow: 0,
+    frameNumber: 1,
+    steamTemp: 140,
+}
+
+describe('De1', () => {
+    let hub: MockCafeHub
+
+    let mock: MockDe1
+
+    let client: CafeHubClient
+
+    let de1: De1
+
+    beforeEach(async () => {
+        hub = new MockCafeHub()
+
+        mock = new MockDe1()
+
+        hub.addDevice(mock)
+
+        client = new CafeHubClient({
+            webSocketFactory: hub.webSocketFactory,
+        })
+
+        await client.connect('ws://hub.local:8765')
+
+        de1 = new De1(client, mock.mac)
+    })
+
+    afterEach(() => {
+        client.teardown()
+
+        de1.destroy()
+    })
+
+    it('connects and tracks the connection state', async () => {
+        const states: ConnectionState[] = []
+
+        de1.on(De1Event.ConnectionStateChange, (state) => void states.push(state))
+
+        await de1.connect()
+
+        expect(de1.getConnectionState()).toBe(ConnectionState.Connected)
+
+        await de1.disconnect()
+
+        expect(states).toEqual([
+            ConnectionState.Init,
+            ConnectionState.Connected,
+            ConnectionState.Disconnected,
+        ])
+    })
+
+    it('throws DeviceConnectionError when the device is out of reach', async () => {
+        hub.removeDevice(mock.mac)
+
+        const error = await de1.connect().catch((e) => e)
+
+        expect(error).toBeInstanceOf(DeviceConnectionError)
+
+        expect(error).toMatchObject({
+            mac: mock.mac,
+            connectionState: ConnectionState.Disconnected,
+        })
+    })
+
+    describe('once connected', () => {
+        beforeEach(() => de1.connect())
+
+        it('reads decoded values', async () => {
+            mock.setState(MachineState.Idle)
+
+            expect(await de1.getState()).toEqual({
+                state: MachineState.Idle,
+                substate: MachineSubstate.NoState,
+            })
+
+            expect(await de1.getShotSettings()).toEqual(mock.get(CharAddr.ShotSettings))
+        })
+
+        it('writes encoded values', async () => {
+            await de1.requestState(MachineState.Steam)
+
+            expect(mock.get(CharAddr.StateInfo).state).toBe(MachineState.Steam)
+
+            const settings = {
+                ...(await de1.getShotSettings()),
+                targetGroupTemp: 94.5,
+            }
+
+            await de1.setShotSettings(settings)
+
+            expect(mock.get(CharAddr.ShotSettings)).toEqual(settings)
+        })
+
+        it('emits changes of the characteristics it subscribed to', async () => {
+            await de1.subscribe(CharAddr.StateInfo)
+
+            await de1.subscribe(CharAddr.ShotSample)
+
+            const states: StateInfo[] = []
+
+            const samples: ShotSample[] = []
+
+            de1.on(De1Event.StateChange, (state) => void states.push(state))
+
+            de1.on(De1Event.ShotSample, (sample) => void samples.push(sample))
+
+            const sampled = new Promise((resolve) => void de1.once(De1Event.ShotSample, resolve))
+
+            mock.setState(MachineState.Espresso, MachineSubstate.Pour)
+
+            mock.pushShotSample(Sample)
+
+            await sampled
+
+            expect(states).toEqual([
+                {
+                    state: MachineState.Espresso,
+                    substate: MachineSubstate.Pour,
+                },
+            ])
+
+            expect(samples).toEqual([Sample])
+
+            await de1.unsubscribe(CharAddr.StateInfo)
+
+            expect(hub.isNotifying(mock.mac, CharAddr.StateInfo)).toBe(false)
+
+            expect(hub.isNotifying(mock.mac, CharAddr.ShotSample)).toBe(true)
+        })
+
+        it('maps hub errors to CafeHubRequestError', async () => {
+            hub.failNext(
+                {
+                    eid: 5,
+                    errmsg: 'GATT error',
+                },
+                RequestCommand.GATTRead
+            )
+
+            const error = await de1.getVersions().catch((e) => e)
+
+            expect(error).toBeInstanceOf(CafeHubRequestError)
+
+            expect(error).toMatchObject({
+                eid: 5,
+                errmsg: 'GATT error',
+            })
+        })
+    })
+})
@@ -0,0 +1,240 @@
+import { EventEmitter } from 'events'
+import type CafeHubClient from './index'
+import { decode, encode } from './codecs/index'
+import DeviceConnectionError from './errors/DeviceConnectionError'
+import {
+    CafeHubEvent,
+    CharAddr,
+    CharChange,
+    CharValues,
+    ConnectionState,
+    De1Event,
+    Device,
+    MachineState,
+    MMRRegister,
+    MMRRegisterInfo,
+    Profile,
+    SendOptions,
+    ShotSample,
+    ShotSettings,
+    StateInfo,
+    Temperatures,
+    Unsubscribe,
+    UploadProfileOptions,
+} from './types'
+
+function noop() {
+    // De1 gets its changes through `DecodedCharChange`.
+}
+
+export default class De1 extends EventEmitter {
+    readonly client: CafeHubClient
+
+    readonly mac: string
+
+    private connectionState: ConnectionState
+
+    private readonly subscriptions = new Map<CharAddr, Unsubscribe>()
+
+    constructor(client: CafeHubClient, mac: string) {
+        super()
+
+        this.client = client
+
+        this.mac = mac
+
+        this.connectionState =
+            client.getDevice(mac)?.connectionState || ConnectionState.Disconnected
+
+        client.on(CafeHubEvent.DecodedCharChange, this.onCharChange)
+
+        client.on(CafeHubEvent.DeviceUpdate, this.onDeviceUpdate)
+    }
+
+    // Detaches the instance from its client. It's unusable afterwards.
+    destroy() {
+        this.client.off(CafeHubEvent.DecodedCharChange, this.onCharChange)
+
+        this.client.off(CafeHubEvent.DeviceUpdate, this.onDeviceUpdate)
+
+        this.subscriptions.forEach((unsubscribe) => {
+            unsubscribe().catch(() => {
+                // Best effort.
+            })
+        })
+
+        this.subscriptions.clear()
+
+        this.removeAllListeners()
+    }
+
+    getConnectionState() {
+        return this.connectionState
+    }
+
+    private setConnectionState(connectionState: ConnectionState) {
+        if (this.connectionState !== connectionState) {
+            this.connectionState = connectionState
+
+            this.emit(De1Event.ConnectionStateChange, connectionState)
+        }
+    }
+
+    private onDeviceUpdate = (device: Device) => {
+        if (device.MAC === this.mac) {
+            this.setConnectionState(device.connectionState)
+        }
+    }
+
+    private onCharChange = (change: CharChange) => {
+        if (change.MAC !== this.mac) {
+            return
+        }
+
+        this.emit(De1Event.Change, change)
+
+        switch (change.Char) {
+            case CharAddr.StateInfo:
+                return void this.emit(De1Event.StateChange, change.value)
+            case CharAddr.ShotSample:
+                return void this.emit(De1Event.ShotSample, change.value)
+            case CharAddr.Temperatures:
+                return void this.emit(De1Event.Temperatures, change.value)
+            default:
+        }
+    }
+
+    async connect(options: SendOptions = {}) {
+        const msg = await this.client.gattConnect(this.mac, options)
+
+        if (msg.results.CState !== ConnectionState.Connected) {
+            throw new DeviceConnectionError(this.mac, msg.results.CState)
+        }
+    }
+
+    async disconnect(options: SendOptions = {}) {
+        await this.client.gattDisconnect(this.mac, options)
+    }
+
+    async read<C extends CharAddr>(char: C, options: SendOptions = {}): Promise<CharValues[C]> {
+        const { data } = await this.client.gattRead(this.mac, char, options)
+
+        return decode(char, data)
+    }
+
+    async write<C extends CharAddr>(char: C, value: CharValues[C], options: SendOptions = {}) {
+        await this.client.gattWrite(this.mac, char, encode(char, value), options)
+    }
+
+    // Changes come in through `De1Event.Change` and friends. Subscriptions are shared with
+    // everyone else using the client, see `CafeHubClient#subscribe`.
+    async subscribe(char: CharAddr, options: SendOptions = {}) {
+        if (this.subscriptions.has(char)) {
+            return
+        }
+
+        const unsubscribe = await this.client.subscribe(this.mac, char, noop, options)
+
+        if (this.subscriptions.has(char)) {
+            // Someone got here first.
+            return void (await unsubscribe())
+        }
+
+        this.subscriptions.set(char, unsubscribe)
+    }
+
+    async unsubscribe(char: CharAddr) {
+        const unsubscribe = this.subscriptions.get(char)
+
+        this.subscriptions.delete(char)
+
+        await unsubscribe?.()
+    }
+
+    uploadProfile(profile: Profile, options?: UploadProfileOptions) {
+        return this.client.uploadProfile(this.mac, profile, options)
+    }
+
+    readMMR(register: MMRRegister | MMRRegisterInfo, options?: SendOptions) {
+        return this.client.readMMR(this.mac, register, options)
+    }
+
+    writeMMR(register: MMRRegister | MMRRegisterInfo, value: number, options?: SendOptions) {
+        return this.client.writeMMR(this.mac, register, value, options)
+    }
+
+    requestState(state: MachineState, options?: SendOptions) {
+        return this.write(CharAddr.RequestedState, state, options)
+    }
+
+    getState(options?: SendOptions) {
+        return this.read(CharAddr.StateInfo, options)
+    }
+
+    getVersions(options?: SendOptions) {
+        return this.read(CharAddr.Versions, options)
+    }
+
+    getTemperatures(options?: SendOptions) {
+        return this.read(CharAddr.Temperatures, options)
+    }
+
+    getShotSettings(options?: SendOptions) {
+        return this.read(CharAddr.ShotSettings, options)
+    }
+
+    setShotSettings(settings: ShotSettings, options?: SendOptions) {
+        return this.write(CharAddr.ShotSettings, settings, options)
+    }
+
+    on(eventName: De1Event.Change, listener: (change: CharChange) => void): this
+
+    on(
+        eventName: De1Event.ConnectionStateChange,
+        listener: (connectionState: ConnectionState) => void
+    ): this
+
+    on(eventName: De1Event.ShotSample, listener: (sample: ShotSample) => void): this
+
+    on(eventName: De1Event.StateChange, listener: (state: StateInfo) => void): this
+
+    on(eventName: De1Event.Temperatures, listener: (temperatures: Temperatures) => void): this
+
+    on(eventName: string, listener: (...args: any[]) => void) {
+        return super.on(eventName, listener)
+    }
+
+    once(eventName: De1Event.Change, listener: (change: CharChange) => void): this
+
+    once(
+        eventName: De1Event.ConnectionStateChange,
+        listener: (connectionState: ConnectionState) => void
+    ): this
+
+    once(eventName: De1Event.ShotSample, listener: (sample: ShotSample) => void): this
+
+    once(eventName: De1Event.StateChange, listener: (state: StateInfo) => void): this
+
+    once(eventName: De1Event.Temperatures, listener: (temperatures: Temperatures) => void): this
+
+    once(eventName: string, listener: (...args: any[]) => void) {
+        return super.once(eventName, listener)
+    }
+
+    off(eventName: De1Event.Change, listener: (change: CharChange) => void): this
+
+    off(
+        eventName: De1Event.ConnectionStateChange,
+        listener: (connectionState: ConnectionState) => void
+    ): this
+
+    off(eventName: De1Event.ShotSample, listener: (sample: ShotSample) => void): this
+
+    off(eventName: De1Event.StateChange, listener: (state: StateInfo) => void): this
+
+    off(eventName: De1Event.Temperatures, listener: (temperatures: Temperatures) => void): this
+
+    off(eventName: string, listener: (...args: any[]) => void) {
+        return super.off(eventName, listener)
+    }
+}
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { decode } from './codecs/index'
+import AbortError from './errors/AbortError'
+import CafeHubRequestError from './errors/CafeHubRequestError'
+import FirmwareError from './errors/FirmwareError'
+import TimeoutError from './errors/TimeoutError'
+import { BoardMarker, getChecksum, HeaderLength } from './firmware/image'
+import FirmwareUploader from './FirmwareUploader'
+import CafeHubClient from './index'
+import MockCafeHub from './testing/MockCafeHub'
+import MockDe1 from './testing/MockDe1'
+import { CharAddr, FirmwareProgressEvent, FirmwareUploaderEvent, RequestCommand } from './types'
+
+// A valid image: header, then `byteCount` bytes of made-up firmware.
+function buildImage(byteCount: number) {
+    const image = new Uint8Array(HeaderLength + byteCount)
+
+    const dv = new DataView(image.buffer)
+
+    image.set(
+        Uint8Array.from({ length: byteCount }, (_, i) => (i * 7) & 0xff),
+        HeaderLength
+    )
+
+    dv.setUint32(0, getChecksum(image.subarray(HeaderLength)), true)
+
+    dv.setUint32(4, BoardMarker, true)
+
+    dv.setUint32(8, 1300, true)
+
+    dv.setUint32(12, byteCount, true)
+
+    dv.setUint32(60, getChecksum(image.subarray(0, HeaderLength - 4)), true)
+
+    return image
+}
+
+describe('FirmwareUploader', () => {
+    // 164 bytes, so 11 chunks and a short one at the end.
+    const image = buildImage(100)
+
+    let hub: MockCafeHub
+
+    let mock: MockDe1
+
+    let client: CafeHubClient
+
+    let uploader: FirmwareUploader
+
+    function mapRequests() {
+        return mock.writes
+            .filter(({ char }) => char === CharAddr.FWMapRequest)
+            .map(({ data }) => decode(CharAddr.FWMapRequest, data))
+    }
+
+    beforeEach(async () => {
+        hub = new MockCafeHub()
+
+        mock = new MockDe1()
+
+        hub.addDevice(mock)
+
+        client = new CafeHubClient({
+            webSocketFactory: hub.webSocketFactory,
+        })
+
+        await client.connect('ws://hub.local:8765')
+
+        await client.gattConnect(mock.mac)
+
+        uploader = new FirmwareUploader(client, mock.mac)
+    })
+
+    afterEach(() => {
+        client.teardown()
+    })
+
+    it('erases, writes and verifies the image', async () => {
+        const progress: FirmwareProgressEvent[] = []
+
+        uploader.on(FirmwareUploaderEvent.Progress, (event) => void progress.push(event))
+
+        // Leftovers from a previous image have to go.
+        mock.poke(HeaderLength + 100, Uint8Array.of(1, 2, 3))
+
+        await uploader.upload(image)
+
+        expect(mock.getFirmware()).toEqual(image)
+
+        expect(mock.peek(HeaderLength + 100, 3)).toEqual(new Uint8Array(3))
+
+        expect(mock.writes.map(({ char }) => char)).toEqual([
+            CharAddr.FWMapRequest,
+            ...Array.from({ length: 11 }, () => CharAddr.WriteToMMR),
+            CharAddr.FWMapRequest,
+        ])
+
+        expect(mapRequests()).toEqual([
+            {
+                windowIncrement: 0,
+                fwToErase: 1,
+                fwToMap: 1,
+                firstError: 0,
+            },
+            {
+                windowIncrement: 0,
+                fwToErase: 0,
+                fwToMap: 1,
+                firstError: 0,
+            },
+        ])
+
+        expect(
+            mock.writes
+                .filter(({ char }) => char === CharAddr.WriteToMMR)
+                .map(({ data }) => decode(CharAddr.WriteToMMR, data))
+                .map(({ address, length }) => [address, length])
+        ).toEqual([...Array.from({ length: 10 }, (_, i) => [i * 16, 16]), [160, 4]])
+
+        expect(progress.map(({ written }) => written)).toEqual([
+            ...Array.from({ length: 11 }, (_, i) => i * 16),
+            164,
+        ])
+
+        expect(progress.every(({ total }) => total === 164)).toBe(true)
+
+        expect(hub.isNotifying(mock.mac, CharAddr.FWMapRequest)).toBe(false)
+    })
+
+    it('accepts an ArrayBuffer', async () => {
+        await uploader.upload(image.slice().buffer)
+
+        expect(mock.getFirmware()).toEqual(image)
+    })
+
+    it('rejects a corrupt image before sending anything', async () => {
+        const corrupt = image.slice()
+
+        corrupt[HeaderLength] ^= 0xff
+
+        await expect(uploader.upload(corrupt)).rejects.toThrow(
+            new FirmwareError('Checksum mismatch')
+        )
+
+        expect(mock.writes).toEqual([])
+
+        expect(hub.requests.map(({ command }) => command)).not.toContain(
+            RequestCommand.GATTSetNotify
+        )
+    })
+
+    it('fails with FirmwareError when the machine rejects what it got', async () => {
+        uploader.on(FirmwareUploaderEvent.Progress, ({ written, total }) => {
+            if (written === total) {
+                // Flip a byte behind the uploader's back.
+                mock.poke(HeaderLength, Uint8Array.of(image[HeaderLength] ^ 0xff))
+            }
+        })
+
+        const error = await uploader.upload(image).catch((e) => e)
+
+        expect(error).toBeInstanceOf(FirmwareError)
+
+        expect(error).toMatchObject({
+            message: 'Firmware rejected at 0x0',
+            firstError: 0,
+        })
+
+        expect(hub.isNotifying(mock.mac, CharAddr.FWMapRequest)).toBe(false)
+    })
+
+    it('stops at the first failed write', async () => {
+        uploader.once(FirmwareUploaderEvent.Progress, () => {
+            hub.failNext(
+                {
+                    eid: 5,
+                    errmsg: 'GATT error',
+                },
+                RequestCommand.GATTWrite
+            )
+        })
+
+        const error = await uploader.upload(image, { window: 1 }).catch((e) => e)
+
+        expect(error).toBeInstanceOf(CafeHubRequestError)
+
+        expect(error).toMatchObject({
+            eid: 5,
+        })
+
+        // The erase only, the failed chunk never reached the machine.
+        expect(mock.writes.map(({ char }) => char)).toEqual([CharAddr.FWMapRequest])
+
+        expect(hub.isNotifying(mock.mac, CharAddr.FWMapRequest)).toBe(false)
+    })
+
+    it('stops when aborted', async () => {
+        const abortController = new AbortController()
+
+        uploader.on(FirmwareUploaderEvent.Progress, ({ written }) => {
+            if (written === 32) {
+                abortController.abort()
+            }
+        })
+
+        await expect(
+            uploader.upload(image, {
+                abortSignal: abortController.signal,
+                window: 1,
+            })
+        ).rejects.toBeInstanceOf(AbortError)
+
+        expect(mock.writes.filter(({ char }) => char === CharAddr.WriteToMMR)).toHaveLength(2)
+
+        expect(mapRequests()).toHaveLength(1)
+
+        expect(hub.isNotifying(mock.mac, CharAddr.FWMapRequest)).toBe(false)
+    })
+
+    it('times out when the machine never finishes erasing', async () => {
+        const write = mock.write.bind(mock)
+
+        // Takes the request, never answers it.
+        mock.write = (char, data) =>
+            char === CharAddr.FWMapRequest ? undefined : write(char, data)
+
+        await expect(uploader.upload(image, { eraseTimeout: 10 })).rejects.toBeInstanceOf(
+            TimeoutError
+        )
+
+        expect(hub.isNotifying(mock.mac, CharAddr.FWMapRequest)).toBe(false)
+    })
+})
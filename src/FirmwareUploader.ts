@@ -0,0 +1,267 @@
+import { EventEmitter } from 'events'
+import type CafeHubClient from './index'
+import { encode } from './codecs/index'
+import AbortError from './errors/AbortError'
+import FirmwareError from './errors/FirmwareError'
+import TimeoutError from './errors/TimeoutError'
+import { MapSuccess, parseFirmwareImage } from './firmware/image'
+import {
+    CafeHubEvent,
+    CharAddr,
+    CharChange,
+    FirmwareProgressEvent,
+    FirmwareUploaderEvent,
+    FirmwareUploadOptions,
+    FWMapRequest,
+} from './types'
+import delay from './utils/delay'
+
+const ChunkSize = 16
+
+interface MapRequestListener {
+    promise: Promise<FWMapRequest>
+    stop: () => void
+}
+
+function noop() {
+    // Replies are picked up by `listen`.
+}
+
+function throwIfAborted(abortSignal?: AbortSignal) {
+    if (abortSignal?.aborted) {
+        throw new AbortError()
+    }
+}
+
+// Flashes DE1 firmware: erases the flash and maps it (`FWMapRequest`), streams the image in
+// 16-byte chunks through `WriteToMMR`, then asks the machine to verify what it got. The machine
+// should be asleep.
+export default class FirmwareUploader extends EventEmitter {
+    readonly client: CafeHubClient
+
+    readonly mac: string
+
+    constructor(client: CafeHubClient, mac: string) {
+        super()
+
+        this.client = client
+
+        this.mac = mac
+    }
+
+    async upload(
+        firmware: ArrayBuffer | Uint8Array,
+        {
+            abortSignal,
+            window = 4,
+            eraseTimeout = 30000,
+            verifyTimeout = 10000,
+        }: FirmwareUploadOptions = {}
+    ) {
+        const { data } = parseFirmwareImage(firmware)
+
+        throwIfAborted(abortSignal)
+
+        const unsubscribe = await this.client.subscribe(this.mac, CharAddr.FWMapRequest, noop)
+
+        try {
+            await this.requestMap(
+                {
+                    windowIncrement: 0,
+                    fwToErase: 1,
+                    fwToMap: 1,
+                    firstError: 0,
+                },
+                ({ fwToErase }) => fwToErase === 0,
+                eraseTimeout,
+                abortSignal
+            )
+
+            await this.writeChunks(data, Math.max(1, window), abortSignal)
+
+            const { firstError } = await this.requestMap(
+                {
+                    windowIncrement: 0,
+                    fwToErase: 0,
+                    fwToMap: 1,
+                    firstError: 0,
+                },
+                () => true,
+                verifyTimeout,
+                abortSignal
+            )
+
+            if (firstError !== MapSuccess) {
+                throw new FirmwareError(
+                    `Firmware rejected at 0x${firstError.toString(16)}`,
+                    firstError
+                )
+            }
+        } finally {
+            try {
+                await unsubscribe()
+            } catch (e) {
+                // The upload's own outcome matters more.
+            }
+        }
+    }
+
+    private listen(predicate: (value: FWMapRequest) => boolean): MapRequestListener {
+        const { client, mac } = this
+
+        let onCharChange: (change: CharChange) => void = () => {
+            //
+        }
+
+        const promise = new Promise<FWMapRequest>((resolve) => {
+            onCharChange = (change: CharChange) => {
+                if (
+                    change.MAC === mac &&
+                    change.Char === CharAddr.FWMapRequest &&
+                    predicate(change.value)
+                ) {
+                    resolve(change.value)
+                }
+            }
+
+            client.on(CafeHubEvent.DecodedCharChange, onCharChange)
+        })
+
+        return {
+            promise,
+            stop() {
+                client.off(CafeHubEvent.DecodedCharChange, onCharChange)
+            },
+        }
+    }
+
+    // Writes a map request and waits for the notification that answers it.
+    private async requestMap(
+        request: FWMapRequest,
+        predicate: (value: FWMapRequest) => boolean,
+        timeout: number,
+        abortSignal?: AbortSignal
+    ) {
+        const listener = this.listen(predicate)
+
+        // Cancels the timeout once we're done, and follows the caller's signal.
+        const controller = new AbortController()
+
+        const onAbort = () => void controller.abort()
+
+        abortSignal?.addEventListener('abort', onAbort)
+
+        try {
+            await this.write(CharAddr.FWMapRequest, encode(CharAddr.FWMapRequest, request))
+
+            throwIfAborted(abortSignal)
+
+            return await Promise.race([
+                listener.promise,
+                delay(timeout, { abortSignal: controller.signal }).then((): never => {
+                    throw new TimeoutError()
+                }),
+            ])
+        } finally {
+            listener.stop()
+
+            abortSignal?.removeEventListener('abort', onAbort)
+
+            controller.abort()
+        }
+    }
+
+    // Keeps up to `window` writes in flight and reports progress as they get acknowledged.
+    private async writeChunks(data: Uint8Array, window: number, abortSignal?: AbortSignal) {
+        const total = data.byteLength
+
+        const inFlight = new Set<Promise<void>>()
+
+        let written = 0
+
+        let failure: undefined | { error: unknown }
+
+        this.emitProgress({ written, total })
+
+        for (let offset = 0; offset < total; offset += ChunkSize) {
+            throwIfAborted(abortSignal)
+
+            const chunk = data.subarray(offset, offset + ChunkSize)
+
+            const write = this.write(
+                CharAddr.WriteToMMR,
+                encode(CharAddr.WriteToMMR, {
+                    length: chunk.byteLength,
+                    address: offset,
+                    data: chunk,
+                })
+            ).then(
+                () => {
+                    inFlight.delete(write)
+
+                    written += chunk.byteLength
+
+                    this.emitProgress({ written, total })
+                },
+                (error) => {
+                    inFlight.delete(write)
+
+                    failure = failure || { error }
+                }
+            )
+
+            inFlight.add(write)
+
+            if (inFlight.size >= window) {
+                await Promise.race(inFlight)
+            }
+
+            if (failure) {
+                break
+            }
+        }
+
+        await Promise.all(inFlight)
+
+        if (failure) {
+            throw failure.error
+        }
+
+        throwIfAborted(abortSignal)
+    }
+
+    private async write(char: CharAddr, data: Uint8Array) {
+        await this.client.gattWrite(this.mac, char, data)
+    }
+
+    private emitProgress(event: FirmwareProgressEvent) {
+        this.emit(FirmwareUploaderEvent.Progress, event)
+    }
+
+    on(
+        eventName: FirmwareUploaderEvent.Progress,
+        listener: (event: FirmwareProgressEvent) => void
+    ): this
+
+    on(eventName: string, listener: (...args: any[]) => void) {
+        return super.on(eventName, listener)
+    }
+
+    once(
+        eventName: FirmwareUploaderEvent.Progress,
+        listener: (event: FirmwareProgressEvent) => void
+    ): this
+
+    once(eventName: string, listener: (...args: any[]) => void) {
+        return super.once(eventName, listener)
+    }
+
+    off(
+        eventName: FirmwareUploaderEvent.Progress,
+        listener: (event: FirmwareProgressEvent) => void
+    ): this
+
+    off(eventName: string, listener: (...args: any[]) => void) {
+        return super.off(eventName, listener)
+    }
+}
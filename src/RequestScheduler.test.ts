@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import CafeHubClient from './index'
+import AbortError from './errors/AbortError'
+import QueueOverflowError from './errors/QueueOverflowError'
+import SocketNotReadyError from './errors/SocketNotReadyError'
+import TimeoutError from './errors/TimeoutError'
+import RequestScheduler from './RequestScheduler'
+import MockCafeHub from './testing/MockCafeHub'
+import MockDe1 from './testing/MockDe1'
+import { CharAddr, RequestPriority, SchedulerOptions } from './types'
+import defer from './utils/defer'
+import delay from './utils/delay'
+
+describe('RequestScheduler', () => {
+    let ready: boolean
+
+    let started: string[]
+
+    // Finishes the running job of the given name.
+    let finish: Record<string, () => void>
+
+    function createScheduler(options: SchedulerOptions = {}) {
+        return new RequestScheduler(options, {
+            isReady: () => ready,
+        })
+    }
+
+    function job(name: string) {
+        return async () => {
+            const { resolve, promise } = await defer<void>()
+
+            started.push(name)
+
+            finish[name] = resolve
+
+            await promise
+
+            return name
+        }
+    }
+
+    beforeEach(() => {
+        ready = false
+
+        started = []
+
+        finish = {}
+    })
+
+    it('runs more important jobs first, then in order of arrival', async () => {
+        const scheduler = createScheduler({
+            concurrency: 1,
+        })
+
+        const done = Promise.all([
+            scheduler.schedule(undefined, RequestPriority.Low, job('low')),
+            scheduler.schedule(undefined, RequestPriority.Normal, job('normal 1')),
+            scheduler.schedule(undefined, RequestPriority.High, job('high')),
+            scheduler.schedule(undefined, RequestPriority.Normal, job('normal 2')),
+        ])
+
+        await delay(0)
+
+        expect(scheduler.getQueueSize()).toBe(4)
+
+        ready = true
+
+        scheduler.pump()
+
+        for (const name of ['high', 'normal 1', 'normal 2', 'low']) {
+            await delay(0)
+
+            expect(started[started.length - 1]).toBe(name)
+
+            finish[name]()
+        }
+
+        expect(await done).toEqual(['low', 'normal 1', 'high', 'normal 2'])
+    })
+
+    it('runs one job per key at a time', async () => {
+        const scheduler = createScheduler()
+
+        ready = true
+
+        const jobs = [
+            scheduler.schedule('a', RequestPriority.Normal, job('a 1')),
+            scheduler.schedule('a', RequestPriority.Normal, job('a 2')),
+            scheduler.schedule('b', RequestPriority.Normal, job('b')),
+        ]
+
+        await delay(0)
+
+        expect(started).toEqual(['a 1', 'b'])
+
+        expect(scheduler.getRunningCount()).toBe(2)
+
+        finish['a 1']()
+
+        await delay(0)
+
+        expect(started).toEqual(['a 1', 'b', 'a 2'])
+
+        finish['a 2']()
+
+        finish.b()
+
+        expect(await Promise.all(jobs)).toEqual(['a 1', 'a 2', 'b'])
+    })
+
+    it('evicts the newest of the least important jobs when full', async () => {
+        const scheduler = createScheduler({
+            maxQueueSize: 2,
+        })
+
+        const first = scheduler.schedule(undefined, RequestPriority.Low, job('low 1'))
+
+        const second = scheduler.schedule(undefined, RequestPriority.Low, job('low 2'))
+
+        await delay(0)
+
+        const high = scheduler.schedule(undefined, RequestPriority.High, job('high'))
+
+        await expect(second).rejects.toBeInstanceOf(QueueOverflowError)
+
+        await expect(
+            scheduler.schedule(undefined, RequestPriority.Low, job('low 3'))
+        ).rejects.toBeInstanceOf(QueueOverflowError)
+
+        expect(scheduler.getQueueSize()).toBe(2)
+
+        ready = true
+
+        scheduler.pump()
+
+        await delay(0)
+
+        finish.high()
+
+        finish['low 1']()
+
+        expect(await Promise.all([first, high])).toEqual(['low 1', 'high'])
+    })
+
+    it('expires jobs that wait too long', async () => {
+        const scheduler = createScheduler({
+            maxQueueAge: 10,
+        })
+
+        await expect(
+            scheduler.schedule(undefined, RequestPriority.Normal, job('stale'))
+        ).rejects.toBeInstanceOf(TimeoutError)
+
+        expect(scheduler.getQueueSize()).toBe(0)
+
+        expect(started).toEqual([])
+    })
+
+    it('rejects waiting jobs on clear', async () => {
+        const scheduler = createScheduler()
+
+        const waiting = scheduler.schedule(undefined, RequestPriority.Normal, job('waiting'))
+
+        await delay(0)
+
+        scheduler.clear(new SocketNotReadyError())
+
+        await expect(waiting).rejects.toBeInstanceOf(SocketNotReadyError)
+
+        expect(scheduler.getQueueSize()).toBe(0)
+    })
+
+    describe('in CafeHubClient', () => {
+        let hub: MockCafeHub
+
+        let de1: MockDe1
+
+        let client: CafeHubClient
+
+        beforeEach(async () => {
+            hub = new MockCafeHub()
+
+            de1 = new MockDe1()
+
+            hub.addDevice(de1)
+
+            client = new CafeHubClient({
+                webSocketFactory: hub.webSocketFactory,
+                scheduler: {
+                    concurrency: 1,
+                },
+            })
+
+            await client.connect('ws://hub.local:8765')
+
+            await client.gattConnect(de1.mac)
+        })
+
+        afterEach(() => {
+            client.teardown()
+        })
+
+        it('clears the queue once disconnected', async () => {
+            hub.latency = 20
+
+            const running = client.gattRead(de1.mac, CharAddr.StateInfo)
+
+            const waiting = client.gattRead(de1.mac, CharAddr.Versions)
+
+            await delay(0)
+
+            client.teardown()
+
+            await expect(running).rejects.toBeInstanceOf(AbortError)
+
+            await expect(waiting).rejects.toBeInstanceOf(SocketNotReadyError)
+        })
+    })
+})
@@ -0,0 +1,169 @@
+import QueueOverflowError from './errors/QueueOverflowError'
+import TimeoutError from './errors/TimeoutError'
+import { SchedulerOptions } from './types'
+import defer from './utils/defer'
+
+interface Job {
+    key: undefined | string
+    priority: number
+    seq: number
+    run: () => Promise<void>
+    reject: (reason?: unknown) => void
+    expiryTimeoutId?: ReturnType<typeof setTimeout>
+}
+
+export default class RequestScheduler {
+    private readonly concurrency: number
+
+    private readonly maxQueueSize: number
+
+    private readonly maxQueueAge: undefined | number
+
+    private readonly isReady: () => boolean
+
+    // Sorted by priority (descending), then by arrival.
+    private queue: Job[] = []
+
+    private running = 0
+
+    private busyKeys = new Set<string>()
+
+    private lastSeq = 0
+
+    constructor(
+        { concurrency = Infinity, maxQueueSize = Infinity, maxQueueAge }: SchedulerOptions,
+        { isReady }: { isReady: () => boolean }
+    ) {
+        this.concurrency = Math.max(1, concurrency)
+
+        this.maxQueueSize = maxQueueSize
+
+        this.maxQueueAge = maxQueueAge
+
+        this.isReady = isReady
+    }
+
+    getQueueSize() {
+        return this.queue.length
+    }
+
+    getRunningCount() {
+        return this.running
+    }
+
+    // Runs `task` once the client is ready, a slot is free and nothing else runs for `key`.
+    async schedule<T>(key: undefined | string, priority: number, task: () => Promise<T>) {
+        const { resolve, reject, promise } = await defer<T>()
+
+        const job: Job = {
+            key,
+            priority,
+            seq: ++this.lastSeq,
+            run: () => Promise.resolve().then(task).then(resolve, reject),
+            reject,
+        }
+
+        if (this.queue.length >= this.maxQueueSize) {
+            const last = this.queue[this.queue.length - 1]
+
+            if (!last || last.priority >= priority) {
+                throw new QueueOverflowError()
+            }
+
+            // Make room by evicting the newest of the least important requests.
+            this.dequeue(last)
+
+            last.reject(new QueueOverflowError())
+        }
+
+        this.enqueue(job)
+
+        if (typeof this.maxQueueAge === 'number') {
+            job.expiryTimeoutId = setTimeout(() => {
+                if (this.dequeue(job)) {
+                    reject(new TimeoutError())
+                }
+            }, this.maxQueueAge)
+        }
+
+        this.pump()
+
+        return promise
+    }
+
+    pump() {
+        if (!this.isReady()) {
+            return
+        }
+
+        let i = 0
+
+        while (i < this.queue.length && this.running < this.concurrency) {
+            const job = this.queue[i]
+
+            if (job.key !== undefined && this.busyKeys.has(job.key)) {
+                i++
+
+                continue
+            }
+
+            this.dequeue(job)
+
+            this.start(job)
+        }
+    }
+
+    // Rejects everything that's still waiting. Running jobs are left alone.
+    clear(reason: unknown) {
+        const queue = this.queue
+
+        this.queue = []
+
+        queue.forEach((job) => {
+            clearTimeout(job.expiryTimeoutId)
+
+            job.reject(reason)
+        })
+    }
+
+    private start(job: Job) {
+        const { key } = job
+
+        this.running++
+
+        if (key !== undefined) {
+            this.busyKeys.add(key)
+        }
+
+        // `run` never rejects.
+        job.run().then(() => {
+            this.running--
+
+            if (key !== undefined) {
+                this.busyKeys.delete(key)
+            }
+
+            this.pump()
+        })
+    }
+
+    private enqueue(job: Job) {
+        const index = this.queue.findIndex((j) => j.priority < job.priority)
+
+        this.queue.splice(index === -1 ? this.queue.length : index, 0, job)
+    }
+
+    private dequeue(job: Job) {
+        const index = this.queue.indexOf(job)
+
+        if (index === -1) {
+            return false
+        }
+
+        this.queue.splice(index, 1)
+
+        clearTimeout(job.expiryTimeoutId)
+
+        return true
+    }
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import CafeHubClient from './index'
+import ShotRecorder from './ShotRecorder'
+import MockCafeHub from './testing/MockCafeHub'
+import MockDe1 from './testing/MockDe1'
+import {
+    CharAddr,
+    MachineState,
+    MachineSubstate,
+    Shot,
+    ShotRecorderEvent,
+    ShotSample,
+} from './types'
+import delay from './utils/delay'
+
+const Sample: ShotSample = {
+    sampleTime: 100,
+    groupPressure: 8.5,
+    groupFlow: 2,
+    mixTemp: 92.5,
+    headTemp: 93,
+    setMixTemp: 92,
+    setHeadTemp: 93,
+    setGroupPressure: 9,
+    setGroupFlow: 0,
+    frameNumber: 1,
+    steamTemp: 140,
+}
+
+describe('ShotRecorder', () => {
+    let hub: MockCafeHub
+
+    let de1: MockDe1
+
+    let client: CafeHubClient
+
+    let now: number
+
+    let recorder: ShotRecorder
+
+    let shots: Shot[]
+
+    let discarded: string[]
+
+    async function enableNotifications() {
+        await client.gattConnect(de1.mac)
+
+        await client.gattSetNotify(de1.mac, CharAddr.StateInfo, true)
+
+        await client.gattSetNotify(de1.mac, CharAddr.ShotSample, true)
+    }
+
+    // Lets the hub deliver what the machine reported.
+    async function at(t: number, report: () => void) {
+        now = t
+
+        report()
+
+        await delay(1)
+    }
+
+    beforeEach(async () => {
+        hub = new MockCafeHub()
+
+        de1 = new MockDe1()
+
+        hub.addDevice(de1)
+
+        client = new CafeHubClient({
+            webSocketFactory: hub.webSocketFactory,
+            autoReconnect: false,
+        })
+
+        now = 0
+
+        recorder = new ShotRecorder(client, {
+            now: () => now,
+        })
+
+        shots = []
+
+        discarded = []
+
+        recorder.on(ShotRecorderEvent.End, (shot) => void shots.push(shot))
+
+        recorder.on(ShotRecorderEvent.Discard, (mac) => void discarded.push(mac))
+
+        await client.connect('ws://hub.local:8765')
+
+        await enableNotifications()
+    })
+
+    afterEach(() => {
+        recorder.destroy()
+
+        client.teardown()
+    })
+
+    it('records a shot', async () => {
+        await at(1000, () => de1.setState(MachineState.Espresso, MachineSubstate.PreInfuse))
+
+        await at(1000, () => de1.pushShotSample(Sample))
+
+        await at(3000, () => de1.setState(MachineState.Espresso, MachineSubstate.Pour))
+
+        await at(3000, () => de1.pushShotSample(Sample))
+
+        await at(4000, () => de1.setState(MachineState.Idle))
+
+        expect(shots).toHaveLength(1)
+
+        expect(shots[0]).toMatchObject({
+            MAC: de1.mac,
+            startedAt: 1000,
+            endedAt: 4000,
+            summary: {
+                duration: 3000,
+                preinfusionDuration: 2000,
+                peakPressure: 8.5,
+                peakFlow: 2,
+                totalVolume: 4,
+            },
+        })
+    })
+
+    it('discards the shot when the hub connection goes', async () => {
+        await at(1000, () => de1.setState(MachineState.Espresso, MachineSubstate.Pour))
+
+        await at(1000, () => de1.pushShotSample(Sample))
+
+        expect(recorder.isRecording(de1.mac)).toBe(true)
+
+        client.teardown()
+
+        expect(recorder.isRecording()).toBe(false)
+
+        expect(discarded).toEqual([de1.mac])
+
+        expect(shots).toEqual([])
+    })
+
+    it("doesn't merge a cut-off shot into the next one", async () => {
+        await at(1000, () => de1.setState(MachineState.Espresso, MachineSubstate.Pour))
+
+        await at(1000, () => de1.pushShotSample(Sample))
+
+        await client.gattDisconnect(de1.mac)
+
+        expect(discarded).toEqual([de1.mac])
+
+        await enableNotifications()
+
+        await at(5000, () => de1.setState(MachineState.Espresso, MachineSubstate.Pour))
+
+        await at(5000, () => de1.pushShotSample(Sample))
+
+        await at(6000, () => de1.setState(MachineState.Idle))
+
+        expect(shots).toHaveLength(1)
+
+        expect(shots[0]).toMatchObject({
+            startedAt: 5000,
+            endedAt: 6000,
+        })
+
+        expect(shots[0].samples).toHaveLength(1)
+    })
+})
@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events'
+import type CafeHubClient from './index'
+import {
+    CafeHubEvent,
+    CharAddr,
+    CharChange,
+    ConnectionState,
+    Device,
+    MachineState,
+    MachineSubstate,
+    Shot,
+    ShotRecorderEvent,
+    ShotSample,
+    ShotSamplePoint,
+    StateInfo,
+} from './types'
+
+interface Recording {
+    startedAt: number
+    samples: ShotSamplePoint[]
+    preinfusionEndedAt?: number
+}
+
+function isPouring({ state, substate }: StateInfo) {
+    return (
+        state === MachineState.Espresso &&
+        (substate === MachineSubstate.PreInfuse || substate === MachineSubstate.Pour)
+    )
+}
+
+function summarize(
+    MAC: string,
+    { startedAt, samples, preinfusionEndedAt }: Recording,
+    endedAt: number
+): Shot {
+    const last = samples[samples.length - 1]
+
+    const preinfusionDuration = (preinfusionEndedAt ?? endedAt) - startedAt
+
+    const preinfusion = samples.filter(({ elapsed }) => elapsed <= preinfusionDuration)
+
+    return {
+        MAC,
+        startedAt,
+        endedAt,
+        samples,
+        summary: {
+            duration: endedAt - startedAt,
+            preinfusionDuration,
+            peakPressure: Math.max(0, ...samples.map(({ groupPressure }) => groupPressure)),
+            peakFlow: Math.max(0, ...samples.map(({ groupFlow }) => groupFlow)),
+            totalVolume: last?.volume || 0,
+            preinfusionVolume: preinfusion[preinfusion.length - 1]?.volume || 0,
+        },
+    }
+}
+
+// Turns `StateInfo` and `ShotSample` notifications into shots. A shot lasts as long as the
+// machine is in the `PreInfuse` or `Pour` substate of `Espresso`. Both characteristics have to
+// have notifications enabled.
+export default class ShotRecorder extends EventEmitter {
+    readonly client: CafeHubClient
+
+    private readonly mac: undefined | string
+
+    private readonly now: () => number
+
+    private readonly substates = new Map<string, MachineSubstate>()
+
+    private readonly recordings = new Map<string, Recording>()
+
+    constructor(
+        client: CafeHubClient,
+        { mac, now = Date.now }: { mac?: string; now?: () => number } = {}
+    ) {
+        super()
+
+        this.client = client
+
+        this.mac = mac
+
+        this.now = now
+
+        client.on(CafeHubEvent.DecodedCharChange, this.onCharChange)
+
+        client.on(CafeHubEvent.DeviceUpdate, this.onDeviceUpdate)
+
+        client.on(CafeHubEvent.Teardown, this.onTeardown)
+    }
+
+    destroy() {
+        this.client.off(CafeHubEvent.DecodedCharChange, this.onCharChange)
+
+        this.client.off(CafeHubEvent.DeviceUpdate, this.onDeviceUpdate)
+
+        this.client.off(CafeHubEvent.Teardown, this.onTeardown)
+
+        this.recordings.clear()
+
+        this.removeAllListeners()
+    }
+
+    isRecording(mac?: string) {
+        return mac ? this.recordings.has(mac) : this.recordings.size > 0
+    }
+
+    private onCharChange = (change: CharChange) => {
+        if (this.mac && change.MAC !== this.mac) {
+            return
+        }
+
+        if (change.Char === CharAddr.StateInfo) {
+            return void this.onStateInfo(change.MAC, change.value)
+        }
+
+        if (change.Char === CharAddr.ShotSample) {
+            this.onShotSample(change.MAC, change.value)
+        }
+    }
+
+    private onDeviceUpdate = ({ MAC, connectionState }: Device) => {
+        if (connectionState !== ConnectionState.Connected) {
+            this.discard(MAC)
+        }
+    }
+
+    // Also runs when the hub connection drops.
+    private onTeardown = () => {
+        ;[...this.recordings.keys()].forEach((mac) => void this.discard(mac))
+    }
+
+    // Whatever comes after a gap belongs to another shot, if to any.
+    private discard(MAC: string) {
+        this.substates.delete(MAC)
+
+        if (this.recordings.delete(MAC)) {
+            this.emit(ShotRecorderEvent.Discard, MAC)
+        }
+    }
+
+    private onStateInfo(MAC: string, info: StateInfo) {
+        const recording = this.recordings.get(MAC)
+
+        this.substates.set(MAC, info.substate)
+
+        if (!recording) {
+            if (isPouring(info)) {
+                this.recordings.set(MAC, {
+                    startedAt: this.now(),
+                    samples: [],
+                })
+
+                this.emit(ShotRecorderEvent.Start, MAC)
+            }
+
+            return
+        }
+
+        if (isPouring(info)) {
+            if (
+                info.substate === MachineSubstate.Pour &&
+                recording.preinfusionEndedAt === undefined
+            ) {
+                recording.preinfusionEndedAt = this.now()
+            }
+
+            return
+        }
+
+        this.recordings.delete(MAC)
+
+        this.emit(ShotRecorderEvent.End, summarize(MAC, recording, this.now()))
+    }
+
+    private onShotSample(MAC: string, sample: ShotSample) {
+        const recording = this.recordings.get(MAC)
+
+        if (!recording) {
+            return
+        }
+
+        const elapsed = this.now() - recording.startedAt
+
+        const prev = recording.samples[recording.samples.length - 1]
+
+        // Trapezoidal integration of flow (ml/s) over time.
+        const volume = prev
+            ? prev.volume +
+              ((prev.groupFlow + sample.groupFlow) / 2) * ((elapsed - prev.elapsed) / 1000)
+            : 0
+
+        const point: ShotSamplePoint = {
+            elapsed,
+            substate: this.substates.get(MAC) ?? MachineSubstate.NoState,
+            frameNumber: sample.frameNumber,
+            groupPressure: sample.groupPressure,
+            groupFlow: sample.groupFlow,
+            mixTemp: sample.mixTemp,
+            headTemp: sample.headTemp,
+            setGroupPressure: sample.setGroupPressure,
+            setGroupFlow: sample.setGroupFlow,
+            setMixTemp: sample.setMixTemp,
+            setHeadTemp: sample.setHeadTemp,
+            volume,
+        }
+
+        recording.samples.push(point)
+
+        this.emit(ShotRecorderEvent.Sample, point, MAC)
+    }
+
+    on(eventName: ShotRecorderEvent.Discard, listener: (mac: string) => void): this
+
+    on(eventName: ShotRecorderEvent.End, listener: (shot: Shot) => void): this
+
+    on(
+        eventName: ShotRecorderEvent.Sample,
+        listener: (sample: ShotSamplePoint, mac: string) => void
+    ): this
+
+    on(eventName: ShotRecorderEvent.Start, listener: (mac: string) => void): this
+
+    on(eventName: string, listener: (...args: any[]) => void) {
+        return super.on(eventName, listener)
+    }
+
+    once(eventName: ShotRecorderEvent.Discard, listener: (mac: string) => void): this
+
+    once(eventName: ShotRecorderEvent.End, listener: (shot: Shot) => void): this
+
+    once(
+        eventName: ShotRecorderEvent.Sample,
+        listener: (sample: ShotSamplePoint, mac: string) => void
+    ): this
+
+    once(eventName: ShotRecorderEvent.Start, listener: (mac: string) => void): this
+
+    once(eventName: string, listener: (...args: any[]) => void) {
+        return super.once(eventName, listener)
+    }
+
+    off(eventName: ShotRecorderEvent.Discard, listener: (mac: string) => void): this
+
+    off(eventName: ShotRecorderEvent.End, listener: (shot: Shot) => void): this
+
+    off(
+        eventName: ShotRecorderEvent.Sample,
+        listener: (sample: ShotSamplePoint, mac: string) => void
+    ): this
+
+    off(eventName: ShotRecorderEvent.Start, listener: (mac: string) => void): this
+
+    off(eventName: string, listener: (...args: any[]) => void) {
+        return super.off(eventName, listener)
+    }
+}
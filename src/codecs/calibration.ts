@@ -0,0 +1,33 @@
+import { Calibration, Codec } from '../types'
+import { alloc, readS32P16, view, writeS32P16, writeU32, writeU8 } from './fixedPoint'
+
+const Length = 14
+
+export const calibrationCodec: Codec<Calibration> = {
+    decode(data) {
+        const dv = view(data, Length, 'Calibration')
+
+        return {
+            writeKey: dv.getUint32(0),
+            calCommand: dv.getUint8(4),
+            calTarget: dv.getUint8(5),
+            de1ReportedValue: readS32P16(dv, 6),
+            measuredValue: readS32P16(dv, 10),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(Length)
+
+        writeU32(dv, 0, value.writeKey, 'writeKey')
+
+        writeU8(dv, 4, value.calCommand, 'calCommand')
+
+        writeU8(dv, 5, value.calTarget, 'calTarget')
+
+        writeS32P16(dv, 6, value.de1ReportedValue, 'de1ReportedValue')
+
+        writeS32P16(dv, 10, value.measuredValue, 'measuredValue')
+
+        return data
+    },
+}
@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest'
+import CodecError from '../errors/CodecError'
+import {
+    alloc,
+    readF817,
+    readS32P16,
+    readU10P0,
+    readU16P12,
+    readU16P8,
+    readU24,
+    readU24P16,
+    readU8P1,
+    readU8P4,
+    writeF817,
+    writeS32P16,
+    writeU10P0,
+    writeU16P12,
+    writeU16P8,
+    writeU24,
+    writeU24P16,
+    writeU8P1,
+    writeU8P4,
+} from './fixedPoint'
+
+interface Format {
+    name: string
+    length: number
+    read: (dv: DataView, offset: number) => number
+    write: (dv: DataView, offset: number, value: number) => void
+    // Smallest and largest representable values, and the step between values.
+    min: number
+    max: number
+    step: number
+}
+
+const Formats: Format[] = [
+    {
+        name: 'U8P1',
+        length: 1,
+        read: readU8P1,
+        write: writeU8P1,
+        min: 0,
+        max: 127.5,
+        step: 1 / 2,
+    },
+    {
+        name: 'U8P4',
+        length: 1,
+        read: readU8P4,
+        write: writeU8P4,
+        min: 0,
+        max: 15.9375,
+        step: 1 / 16,
+    },
+    {
+        name: 'U16P8',
+        length: 2,
+        read: readU16P8,
+        write: writeU16P8,
+        min: 0,
+        max: 255.99609375,
+        step: 1 / 256,
+    },
+    {
+        name: 'U16P12',
+        length: 2,
+        read: readU16P12,
+        write: writeU16P12,
+        min: 0,
+        max: 15.999755859375,
+        step: 1 / 4096,
+    },
+    {
+        name: 'U24',
+        length: 3,
+        read: readU24,
+        write: writeU24,
+        min: 0,
+        max: 0xffffff,
+        step: 1,
+    },
+    {
+        name: 'U24P16',
+        length: 3,
+        read: readU24P16,
+        write: writeU24P16,
+        min: 0,
+        max: 255.9999847412109375,
+        step: 1 / 65536,
+    },
+    {
+        name: 'S32P16',
+        length: 4,
+        read: readS32P16,
+        write: writeS32P16,
+        min: -32768,
+        max: 32767.9999847412109375,
+        step: 1 / 65536,
+    },
+]
+
+function roundTrip({ length, read, write }: Format, value: number) {
+    const { dv } = alloc(length)
+
+    write(dv, 0, value)
+
+    return read(dv, 0)
+}
+
+describe('fixed-point formats', () => {
+    Formats.forEach((format) => {
+        const { name, length, write, min, max, step } = format
+
+        describe(name, () => {
+            it('round-trips its boundaries', () => {
+                expect(roundTrip(format, min)).toBe(min)
+
+                expect(roundTrip(format, min + step)).toBe(min + step)
+
+                expect(roundTrip(format, max - step)).toBe(max - step)
+
+                expect(roundTrip(format, max)).toBe(max)
+            })
+
+            it('rounds to the nearest step', () => {
+                expect(roundTrip(format, 1 + step * 0.4)).toBe(1)
+
+                expect(roundTrip(format, 1 + step * 0.6)).toBe(1 + step)
+            })
+
+            it('rejects values out of range', () => {
+                const { dv } = alloc(length)
+
+                expect(() => write(dv, 0, max + step)).toThrow(CodecError)
+
+                expect(() => write(dv, 0, min - step)).toThrow(CodecError)
+
+                expect(() => write(dv, 0, NaN)).toThrow(CodecError)
+
+                expect(() => write(dv, 0, Infinity)).toThrow(CodecError)
+            })
+        })
+    })
+
+    it('stores U16P8 big-endian', () => {
+        const { data, dv } = alloc(2)
+
+        writeU16P8(dv, 0, 92.5)
+
+        expect(Array.from(data)).toEqual([0x5c, 0x80])
+    })
+
+    it('stores U24P16 big-endian', () => {
+        const { data, dv } = alloc(3)
+
+        writeU24P16(dv, 0, 1.5)
+
+        expect(Array.from(data)).toEqual([0x01, 0x80, 0x00])
+    })
+
+    it('stores S32P16 in two’s complement', () => {
+        const { data, dv } = alloc(4)
+
+        writeS32P16(dv, 0, -1)
+
+        expect(Array.from(data)).toEqual([0xff, 0xff, 0x00, 0x00])
+    })
+
+    it('names the field in errors', () => {
+        const { dv } = alloc(1)
+
+        expect(() => writeU8P4(dv, 0, 16, 'setVal')).toThrow(
+            new CodecError('setVal is out of range: 16')
+        )
+    })
+
+    describe('F8_1_7', () => {
+        function roundTripF817(value: number) {
+            const { data, dv } = alloc(1)
+
+            writeF817(dv, 0, value)
+
+            return {
+                raw: data[0],
+                value: readF817(dv, 0),
+            }
+        }
+
+        it('stores short durations in tenths', () => {
+            expect(roundTripF817(0)).toEqual({
+                raw: 0,
+                value: 0,
+            })
+
+            expect(roundTripF817(12.7)).toEqual({
+                raw: 127,
+                value: 12.7,
+            })
+        })
+
+        it('stores long durations in whole units with the top bit set', () => {
+            expect(roundTripF817(12.75)).toEqual({
+                raw: 0x80 | 13,
+                value: 13,
+            })
+
+            expect(roundTripF817(127)).toEqual({
+                raw: 0xff,
+                value: 127,
+            })
+        })
+
+        it('rejects values out of range', () => {
+            const { dv } = alloc(1)
+
+            expect(() => writeF817(dv, 0, 127.1)).toThrow(CodecError)
+
+            expect(() => writeF817(dv, 0, -0.1)).toThrow(CodecError)
+        })
+    })
+
+    describe('U10P0', () => {
+        it('flags the limit as covering the whole shot', () => {
+            const { data, dv } = alloc(2)
+
+            writeU10P0(dv, 0, 1023)
+
+            expect(Array.from(data)).toEqual([0x07, 0xff])
+
+            expect(readU10P0(dv, 0)).toBe(1023)
+        })
+
+        it('ignores the flag when reading', () => {
+            const { dv } = alloc(2)
+
+            dv.setUint16(0, 0x0400 | 36)
+
+            expect(readU10P0(dv, 0)).toBe(36)
+        })
+
+        it('rejects values out of range', () => {
+            const { dv } = alloc(2)
+
+            expect(() => writeU10P0(dv, 0, 1024)).toThrow(CodecError)
+        })
+    })
+})
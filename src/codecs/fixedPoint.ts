@@ -0,0 +1,135 @@
+import CodecError from '../errors/CodecError'
+
+// All multi-byte DE1 fields are big-endian. `PN` suffixes denote the number of fractional bits.
+
+function toUnsigned(value: number, fractionBits: number, bits: number, field: string) {
+    const raw = Math.round(value * 2 ** fractionBits)
+
+    if (!Number.isFinite(raw) || raw < 0 || raw >= 2 ** bits) {
+        throw new CodecError(`${field} is out of range: ${value}`)
+    }
+
+    return raw
+}
+
+export function view(data: Uint8Array, length: number, field: string) {
+    if (data.byteLength < length) {
+        throw new CodecError(`${field} needs ${length} bytes, got ${data.byteLength}`)
+    }
+
+    return new DataView(data.buffer, data.byteOffset, data.byteLength)
+}
+
+export function alloc(length: number) {
+    const data = new Uint8Array(length)
+
+    return {
+        data,
+        dv: new DataView(data.buffer),
+    }
+}
+
+export function readU24(dv: DataView, offset: number) {
+    return (dv.getUint8(offset) << 16) | dv.getUint16(offset + 1)
+}
+
+function setU24(dv: DataView, offset: number, raw: number) {
+    dv.setUint8(offset, raw >> 16)
+
+    dv.setUint16(offset + 1, raw & 0xffff)
+}
+
+export function writeU24(dv: DataView, offset: number, value: number, field = 'U24') {
+    setU24(dv, offset, toUnsigned(value, 0, 24, field))
+}
+
+export function readU8P1(dv: DataView, offset: number) {
+    return dv.getUint8(offset) / 2
+}
+
+export function writeU8P1(dv: DataView, offset: number, value: number, field = 'U8P1') {
+    dv.setUint8(offset, toUnsigned(value, 1, 8, field))
+}
+
+export function readU8P4(dv: DataView, offset: number) {
+    return dv.getUint8(offset) / 16
+}
+
+export function writeU8P4(dv: DataView, offset: number, value: number, field = 'U8P4') {
+    dv.setUint8(offset, toUnsigned(value, 4, 8, field))
+}
+
+export function readU16P8(dv: DataView, offset: number) {
+    return dv.getUint16(offset) / 256
+}
+
+export function writeU16P8(dv: DataView, offset: number, value: number, field = 'U16P8') {
+    dv.setUint16(offset, toUnsigned(value, 8, 16, field))
+}
+
+export function readU16P12(dv: DataView, offset: number) {
+    return dv.getUint16(offset) / 4096
+}
+
+export function writeU16P12(dv: DataView, offset: number, value: number, field = 'U16P12') {
+    dv.setUint16(offset, toUnsigned(value, 12, 16, field))
+}
+
+export function readU24P16(dv: DataView, offset: number) {
+    return readU24(dv, offset) / 65536
+}
+
+export function writeU24P16(dv: DataView, offset: number, value: number, field = 'U24P16') {
+    setU24(dv, offset, toUnsigned(value, 16, 24, field))
+}
+
+export function readS32P16(dv: DataView, offset: number) {
+    return dv.getInt32(offset) / 65536
+}
+
+export function writeS32P16(dv: DataView, offset: number, value: number, field = 'S32P16') {
+    const raw = Math.round(value * 65536)
+
+    if (!Number.isFinite(raw) || raw < -(2 ** 31) || raw >= 2 ** 31) {
+        throw new CodecError(`${field} is out of range: ${value}`)
+    }
+
+    dv.setInt32(offset, raw)
+}
+
+// F8_1_7: below 12.75 the value is stored in tenths, above it in whole units with the top bit set.
+export function readF817(dv: DataView, offset: number) {
+    const raw = dv.getUint8(offset)
+
+    return raw & 0x80 ? raw & 0x7f : raw / 10
+}
+
+export function writeF817(dv: DataView, offset: number, value: number, field = 'F8_1_7') {
+    if (!Number.isFinite(value) || value < 0 || value > 127) {
+        throw new CodecError(`${field} is out of range: ${value}`)
+    }
+
+    dv.setUint8(offset, value < 12.75 ? Math.round(value * 10) : 0x80 | Math.round(value))
+}
+
+// U10P0: a 10-bit volume. Bit 10 tells the machine the limit covers the whole shot, not just
+// the pour.
+export function readU10P0(dv: DataView, offset: number) {
+    return dv.getUint16(offset) & 0x3ff
+}
+
+export function writeU10P0(dv: DataView, offset: number, value: number, field = 'U10P0') {
+    dv.setUint16(offset, toUnsigned(value, 0, 10, field) | 0x400)
+}
+
+export function writeU8(dv: DataView, offset: number, value: number, field = 'U8') {
+    dv.setUint8(offset, toUnsigned(value, 0, 8, field))
+}
+
+export function writeU16(dv: DataView, offset: number, value: number, field = 'U16') {
+    dv.setUint16(offset, toUnsigned(value, 0, 16, field))
+}
+
+export function writeU32(dv: DataView, offset: number, value: number, field = 'U32') {
+    dv.setUint32(offset, toUnsigned(value, 0, 32, field))
+}
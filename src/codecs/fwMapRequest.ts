@@ -0,0 +1,30 @@
+import { Codec, FWMapRequest } from '../types'
+import { alloc, readU24, view, writeU16, writeU24, writeU8 } from './fixedPoint'
+
+const Length = 7
+
+export const fwMapRequestCodec: Codec<FWMapRequest> = {
+    decode(data) {
+        const dv = view(data, Length, 'FWMapRequest')
+
+        return {
+            windowIncrement: dv.getUint16(0),
+            fwToErase: dv.getUint8(2),
+            fwToMap: dv.getUint8(3),
+            firstError: readU24(dv, 4),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(Length)
+
+        writeU16(dv, 0, value.windowIncrement, 'windowIncrement')
+
+        writeU8(dv, 2, value.fwToErase, 'fwToErase')
+
+        writeU8(dv, 3, value.fwToMap, 'fwToMap')
+
+        writeU24(dv, 4, value.firstError, 'firstError')
+
+        return data
+    },
+}
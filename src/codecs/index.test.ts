@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest'
+import CodecError from '../errors/CodecError'
+import { CharAddr, CharValues, MachineState, MachineSubstate } from '../types'
+import toBase64 from '../utils/toBase64'
+import { decode, encode, isCharAddr, tailFrameCodec } from './index'
+
+// One value per characteristic. Typed so that a new `CharAddr` can't go without one.
+const Values: { [C in CharAddr]: CharValues[C] } = {
+    [CharAddr.Versions]: {
+        ble: {
+            apiVersion: 4,
+            release: 1,
+            commits: 1234,
+            changes: 2,
+            sha: 0xdeadbeef,
+        },
+        fw: {
+            apiVersion: 4,
+            release: 2,
+            commits: 65535,
+            changes: 0,
+            sha: 0x01234567,
+        },
+    },
+    [CharAddr.RequestedState]: MachineState.Espresso,
+    [CharAddr.SetTime]: Uint8Array.of(0, 1, 2, 3, 4, 5),
+    [CharAddr.ShotDirectory]: Uint8Array.of(9, 8, 7),
+    [CharAddr.ReadFromMMR]: {
+        length: 3,
+        address: 0x803834,
+        data: Uint8Array.from({ length: 16 }, (_, i) => i),
+    },
+    [CharAddr.WriteToMMR]: {
+        length: 15,
+        address: 0x00fff0,
+        data: Uint8Array.from({ length: 16 }, (_, i) => 255 - i),
+    },
+    [CharAddr.ShotMapRequest]: Uint8Array.of(1),
+    [CharAddr.DeleteShotRange]: Uint8Array.of(0, 10),
+    [CharAddr.FWMapRequest]: {
+        windowIncrement: 0,
+        fwToErase: 1,
+        fwToMap: 1,
+        firstError: 0xfffffd,
+    },
+    [CharAddr.Temperatures]: {
+        waterHeater: 85.5,
+        steamHeater: 140.25,
+        groupHead: 88.125,
+        coldWater: 20.00390625,
+        targetWaterHeater: 85,
+        targetSteamHeater: 160,
+        targetGroupHead: 93.5,
+        targetColdWater: 0,
+    },
+    [CharAddr.ShotSettings]: {
+        steamSettings: 0,
+        targetSteamTemp: 160,
+        targetSteamLength: 90,
+        targetHotWaterTemp: 85,
+        targetHotWaterVol: 120,
+        targetHotWaterLength: 60,
+        targetEspressoVol: 36,
+        targetGroupTemp: 93.5,
+    },
+    [CharAddr.Deprecated]: Uint8Array.of(),
+    [CharAddr.ShotSample]: {
+        sampleTime: 51234,
+        groupPressure: 8.75,
+        groupFlow: 2.000244140625,
+        mixTemp: 92.5,
+        headTemp: 93.0000152587890625,
+        setMixTemp: 92,
+        setHeadTemp: 93,
+        setGroupPressure: 9,
+        setGroupFlow: 4.0625,
+        frameNumber: 3,
+        steamTemp: 140,
+    },
+    [CharAddr.StateInfo]: {
+        state: MachineState.Espresso,
+        substate: MachineSubstate.Pour,
+    },
+    [CharAddr.HeaderWrite]: {
+        headerVersion: 1,
+        numberOfFrames: 5,
+        numberOfPreinfuseFrames: 2,
+        minimumPressure: 0,
+        maximumFlow: 6,
+    },
+    [CharAddr.FrameWrite]: {
+        frameToWrite: 2,
+        flag: 0x21,
+        setVal: 8.5,
+        temp: 92.5,
+        frameLen: 25,
+        triggerVal: 4,
+        maxVol: 100,
+    },
+    [CharAddr.WaterLevels]: {
+        level: 30.5,
+        startFillLevel: 5,
+    },
+    [CharAddr.Calibration]: {
+        writeKey: 0xcafef00d,
+        calCommand: 1,
+        calTarget: 2,
+        de1ReportedValue: -1.5,
+        measuredValue: 8.25,
+    },
+}
+
+const Lengths: { [C in CharAddr]?: number } = {
+    [CharAddr.Versions]: 18,
+    [CharAddr.RequestedState]: 1,
+    [CharAddr.ReadFromMMR]: 20,
+    [CharAddr.WriteToMMR]: 20,
+    [CharAddr.FWMapRequest]: 7,
+    [CharAddr.Temperatures]: 16,
+    [CharAddr.ShotSettings]: 9,
+    [CharAddr.ShotSample]: 19,
+    [CharAddr.StateInfo]: 2,
+    [CharAddr.HeaderWrite]: 5,
+    [CharAddr.FrameWrite]: 8,
+    [CharAddr.WaterLevels]: 4,
+    [CharAddr.Calibration]: 14,
+}
+
+function hex(data: Uint8Array) {
+    return Array.from(data, (byte) => `0${byte.toString(16)}`.slice(-2)).join('')
+}
+
+function bytes(hex: string) {
+    return Uint8Array.from(hex.match(/../g) || [], (byte) => parseInt(byte, 16))
+}
+
+describe('codecs', () => {
+    describe('round trips', () => {
+        ;(Object.keys(Values) as CharAddr[]).forEach((char) => {
+            it(`${char}`, () => {
+                const data = encode(char, Values[char])
+
+                const length = Lengths[char]
+
+                if (length !== undefined) {
+                    expect(data.byteLength).toBe(length)
+                }
+
+                expect(decode(char, data)).toEqual(Values[char])
+
+                expect(decode(char, toBase64(data))).toEqual(Values[char])
+
+                expect(encode(char, decode(char, data))).toEqual(data)
+            })
+        })
+    })
+
+    describe('layouts', () => {
+        it('writes multi-byte fields big-endian', () => {
+            expect(hex(encode(CharAddr.Versions, Values[CharAddr.Versions]))).toBe(
+                '040104d202deadbeef' + '0402ffff0001234567'
+            )
+        })
+
+        it('decodes every shot sample field at its offset', () => {
+            expect(
+                decode(CharAddr.ShotSample, bytes('1f4084a3181d5c805d1b2c5c005d0090000214'))
+            ).toEqual({
+                sampleTime: 8000,
+                groupPressure: 8.289794921875,
+                groupFlow: 1.507080078125,
+                mixTemp: 92.5,
+                headTemp: 93.10614013671875,
+                setMixTemp: 92,
+                setHeadTemp: 93,
+                setGroupPressure: 9,
+                setGroupFlow: 0,
+                frameNumber: 2,
+                steamTemp: 20,
+            })
+        })
+
+        it('encodes a shot frame', () => {
+            expect(hex(encode(CharAddr.FrameWrite, Values[CharAddr.FrameWrite]))).toBe(
+                '022188b999400464'
+            )
+        })
+
+        it('encodes extension frames', () => {
+            const frame = {
+                frameToWrite: 34,
+                maxFlowOrPressure: 2.5,
+                maxFlowOrPressureRange: 0.6,
+            }
+
+            const data = encode(CharAddr.FrameWrite, frame)
+
+            expect(hex(data)).toBe('22280a0000000000')
+
+            expect(decode(CharAddr.FrameWrite, data)).toEqual({
+                ...frame,
+                // 0.6 isn't representable in U8P4.
+                maxFlowOrPressureRange: 0.625,
+            })
+        })
+
+        it('encodes tail frames', () => {
+            const frame = {
+                frameToWrite: 5,
+                maxTotalVolume: 36,
+            }
+
+            const data = tailFrameCodec.encode(frame)
+
+            expect(hex(data)).toBe('0504240000000000')
+
+            expect(tailFrameCodec.decode(data)).toEqual(frame)
+        })
+
+        it('copies raw characteristics', () => {
+            const data = Uint8Array.of(1, 2, 3)
+
+            const decoded = decode(CharAddr.SetTime, data)
+
+            expect(decoded).toEqual(data)
+
+            expect(decoded).not.toBe(data)
+        })
+    })
+
+    describe('errors', () => {
+        it('rejects short payloads', () => {
+            expect(() => decode(CharAddr.ShotSample, new Uint8Array(18))).toThrow(
+                new CodecError('ShotSample needs 19 bytes, got 18')
+            )
+        })
+
+        it('rejects out-of-range values, naming the field', () => {
+            expect(() =>
+                encode(CharAddr.ShotSettings, {
+                    ...Values[CharAddr.ShotSettings],
+                    targetEspressoVol: 256,
+                })
+            ).toThrow(new CodecError('targetEspressoVol is out of range: 256'))
+        })
+
+        it('rejects MMR payloads over 16 bytes', () => {
+            expect(() =>
+                encode(CharAddr.WriteToMMR, {
+                    length: 16,
+                    address: 0,
+                    data: new Uint8Array(17),
+                })
+            ).toThrow(CodecError)
+        })
+    })
+
+    it('tells characteristics apart from other strings', () => {
+        expect(isCharAddr(CharAddr.ShotSample)).toBe(true)
+
+        expect(isCharAddr('a0ff')).toBe(false)
+
+        expect(isCharAddr('toString')).toBe(false)
+    })
+})
@@ -0,0 +1,64 @@
+import { CharAddr, CharValues, Codec } from '../types'
+import fromBase64 from '../utils/fromBase64'
+import { calibrationCodec } from './calibration'
+import { fwMapRequestCodec } from './fwMapRequest'
+import { mmrCodec } from './mmr'
+import { rawCodec } from './raw'
+import { frameCodec, headerCodec } from './shotDescription'
+import { shotSampleCodec } from './shotSample'
+import { shotSettingsCodec } from './shotSettings'
+import { requestedStateCodec, stateInfoCodec } from './state'
+import { temperaturesCodec } from './temperatures'
+import { versionsCodec } from './versions'
+import { waterLevelsCodec } from './waterLevels'
+
+export const codecs: { [C in CharAddr]: Codec<CharValues[C]> } = {
+    [CharAddr.Versions]: versionsCodec,
+    [CharAddr.RequestedState]: requestedStateCodec,
+    [CharAddr.SetTime]: rawCodec,
+    [CharAddr.ShotDirectory]: rawCodec,
+    [CharAddr.ReadFromMMR]: mmrCodec,
+    [CharAddr.WriteToMMR]: mmrCodec,
+    [CharAddr.ShotMapRequest]: rawCodec,
+    [CharAddr.DeleteShotRange]: rawCodec,
+    [CharAddr.FWMapRequest]: fwMapRequestCodec,
+    [CharAddr.Temperatures]: temperaturesCodec,
+    [CharAddr.ShotSettings]: shotSettingsCodec,
+    [CharAddr.Deprecated]: rawCodec,
+    [CharAddr.ShotSample]: shotSampleCodec,
+    [CharAddr.StateInfo]: stateInfoCodec,
+    [CharAddr.HeaderWrite]: headerCodec,
+    [CharAddr.FrameWrite]: frameCodec,
+    [CharAddr.WaterLevels]: waterLevelsCodec,
+    [CharAddr.Calibration]: calibrationCodec,
+}
+
+export function isCharAddr(char: string): char is CharAddr {
+    return Object.prototype.hasOwnProperty.call(codecs, char)
+}
+
+export function decode<C extends CharAddr>(char: C, data: Uint8Array | string): CharValues[C] {
+    return codecs[char].decode(typeof data === 'string' ? fromBase64(data) : data)
+}
+
+export function encode<C extends CharAddr>(char: C, value: CharValues[C]): Uint8Array {
+    return codecs[char].encode(value)
+}
+
+export { calibrationCodec } from './calibration'
+export { fwMapRequestCodec } from './fwMapRequest'
+export { mmrCodec } from './mmr'
+export { rawCodec } from './raw'
+export {
+    ExtensionFrameOffset,
+    frameCodec,
+    headerCodec,
+    isExtensionFrame,
+    tailFrameCodec,
+} from './shotDescription'
+export { shotSampleCodec } from './shotSample'
+export { shotSettingsCodec } from './shotSettings'
+export { requestedStateCodec, stateInfoCodec } from './state'
+export { temperaturesCodec } from './temperatures'
+export { versionsCodec } from './versions'
+export { waterLevelsCodec } from './waterLevels'
@@ -0,0 +1,34 @@
+import CodecError from '../errors/CodecError'
+import { Codec, MMRPayload } from '../types'
+import { alloc, readU24, view, writeU24, writeU8 } from './fixedPoint'
+
+const DataLength = 16
+
+const Length = 4 + DataLength
+
+export const mmrCodec: Codec<MMRPayload> = {
+    decode(data) {
+        const dv = view(data, Length, 'MMR')
+
+        return {
+            length: dv.getUint8(0),
+            address: readU24(dv, 1),
+            data: data.slice(4, Length),
+        }
+    },
+    encode(value) {
+        if (value.data.byteLength > DataLength) {
+            throw new CodecError(`MMR data can't exceed ${DataLength} bytes`)
+        }
+
+        const { data, dv } = alloc(Length)
+
+        writeU8(dv, 0, value.length, 'length')
+
+        writeU24(dv, 1, value.address, 'address')
+
+        data.set(value.data, 4)
+
+        return data
+    },
+}
@@ -0,0 +1,11 @@
+import { Codec } from '../types'
+
+// For characteristics whose layout we don't interpret (yet). Bytes are copied both ways.
+export const rawCodec: Codec<Uint8Array> = {
+    decode(data) {
+        return data.slice()
+    },
+    encode(value) {
+        return value.slice()
+    },
+}
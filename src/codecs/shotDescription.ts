@@ -0,0 +1,128 @@
+import { Codec, FrameWrite, ShotExtensionFrame, ShotHeader, ShotTailFrame } from '../types'
+import {
+    alloc,
+    readF817,
+    readU10P0,
+    readU8P1,
+    readU8P4,
+    view,
+    writeF817,
+    writeU10P0,
+    writeU8,
+    writeU8P1,
+    writeU8P4,
+} from './fixedPoint'
+
+export const ExtensionFrameOffset = 32
+
+const HeaderLength = 5
+
+const FrameLength = 8
+
+export function isExtensionFrame(frame: FrameWrite): frame is ShotExtensionFrame {
+    return frame.frameToWrite >= ExtensionFrameOffset
+}
+
+export const headerCodec: Codec<ShotHeader> = {
+    decode(data) {
+        const dv = view(data, HeaderLength, 'HeaderWrite')
+
+        return {
+            headerVersion: dv.getUint8(0),
+            numberOfFrames: dv.getUint8(1),
+            numberOfPreinfuseFrames: dv.getUint8(2),
+            minimumPressure: readU8P4(dv, 3),
+            maximumFlow: readU8P4(dv, 4),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(HeaderLength)
+
+        writeU8(dv, 0, value.headerVersion, 'headerVersion')
+
+        writeU8(dv, 1, value.numberOfFrames, 'numberOfFrames')
+
+        writeU8(dv, 2, value.numberOfPreinfuseFrames, 'numberOfPreinfuseFrames')
+
+        writeU8P4(dv, 3, value.minimumPressure, 'minimumPressure')
+
+        writeU8P4(dv, 4, value.maximumFlow, 'maximumFlow')
+
+        return data
+    },
+}
+
+export const frameCodec: Codec<FrameWrite> = {
+    decode(data) {
+        const dv = view(data, FrameLength, 'FrameWrite')
+
+        const frameToWrite = dv.getUint8(0)
+
+        if (frameToWrite >= ExtensionFrameOffset) {
+            return {
+                frameToWrite,
+                maxFlowOrPressure: readU8P4(dv, 1),
+                maxFlowOrPressureRange: readU8P4(dv, 2),
+            }
+        }
+
+        return {
+            frameToWrite,
+            flag: dv.getUint8(1),
+            setVal: readU8P4(dv, 2),
+            temp: readU8P1(dv, 3),
+            frameLen: readF817(dv, 4),
+            triggerVal: readU8P4(dv, 5),
+            maxVol: readU10P0(dv, 6),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(FrameLength)
+
+        writeU8(dv, 0, value.frameToWrite, 'frameToWrite')
+
+        if (isExtensionFrame(value)) {
+            writeU8P4(dv, 1, value.maxFlowOrPressure, 'maxFlowOrPressure')
+
+            writeU8P4(dv, 2, value.maxFlowOrPressureRange, 'maxFlowOrPressureRange')
+
+            return data
+        }
+
+        writeU8(dv, 1, value.flag, 'flag')
+
+        writeU8P4(dv, 2, value.setVal, 'setVal')
+
+        writeU8P1(dv, 3, value.temp, 'temp')
+
+        writeF817(dv, 4, value.frameLen, 'frameLen')
+
+        writeU8P4(dv, 5, value.triggerVal, 'triggerVal')
+
+        writeU10P0(dv, 6, value.maxVol, 'maxVol')
+
+        return data
+    },
+}
+
+// Tail frames share the `FrameWrite` characteristic but can't be told apart from regular
+// frames by their bytes alone, hence the separate codec.
+export const tailFrameCodec: Codec<ShotTailFrame> = {
+    decode(data) {
+        const dv = view(data, FrameLength, 'FrameWrite')
+
+        return {
+            frameToWrite: dv.getUint8(0),
+            maxTotalVolume: readU10P0(dv, 1),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(FrameLength)
+
+        writeU8(dv, 0, value.frameToWrite, 'frameToWrite')
+
+        writeU10P0(dv, 1, value.maxTotalVolume, 'maxTotalVolume')
+
+        return data
+    },
+}
@@ -0,0 +1,64 @@
+import { Codec, ShotSample } from '../types'
+import {
+    alloc,
+    readU16P12,
+    readU16P8,
+    readU24P16,
+    readU8P4,
+    view,
+    writeU16,
+    writeU16P12,
+    writeU16P8,
+    writeU24P16,
+    writeU8,
+    writeU8P4,
+} from './fixedPoint'
+
+const Length = 19
+
+export const shotSampleCodec: Codec<ShotSample> = {
+    decode(data) {
+        const dv = view(data, Length, 'ShotSample')
+
+        return {
+            sampleTime: dv.getUint16(0),
+            groupPressure: readU16P12(dv, 2),
+            groupFlow: readU16P12(dv, 4),
+            mixTemp: readU16P8(dv, 6),
+            headTemp: readU24P16(dv, 8),
+            setMixTemp: readU16P8(dv, 11),
+            setHeadTemp: readU16P8(dv, 13),
+            setGroupPressure: readU8P4(dv, 15),
+            setGroupFlow: readU8P4(dv, 16),
+            frameNumber: dv.getUint8(17),
+            steamTemp: dv.getUint8(18),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(Length)
+
+        writeU16(dv, 0, value.sampleTime, 'sampleTime')
+
+        writeU16P12(dv, 2, value.groupPressure, 'groupPressure')
+
+        writeU16P12(dv, 4, value.groupFlow, 'groupFlow')
+
+        writeU16P8(dv, 6, value.mixTemp, 'mixTemp')
+
+        writeU24P16(dv, 8, value.headTemp, 'headTemp')
+
+        writeU16P8(dv, 11, value.setMixTemp, 'setMixTemp')
+
+        writeU16P8(dv, 13, value.setHeadTemp, 'setHeadTemp')
+
+        writeU8P4(dv, 15, value.setGroupPressure, 'setGroupPressure')
+
+        writeU8P4(dv, 16, value.setGroupFlow, 'setGroupFlow')
+
+        writeU8(dv, 17, value.frameNumber, 'frameNumber')
+
+        writeU8(dv, 18, value.steamTemp, 'steamTemp')
+
+        return data
+    },
+}
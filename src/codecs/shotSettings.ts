@@ -0,0 +1,42 @@
+import { Codec, ShotSettings } from '../types'
+import { alloc, readU16P8, view, writeU16P8, writeU8 } from './fixedPoint'
+
+const Length = 9
+
+export const shotSettingsCodec: Codec<ShotSettings> = {
+    decode(data) {
+        const dv = view(data, Length, 'ShotSettings')
+
+        return {
+            steamSettings: dv.getUint8(0),
+            targetSteamTemp: dv.getUint8(1),
+            targetSteamLength: dv.getUint8(2),
+            targetHotWaterTemp: dv.getUint8(3),
+            targetHotWaterVol: dv.getUint8(4),
+            targetHotWaterLength: dv.getUint8(5),
+            targetEspressoVol: dv.getUint8(6),
+            targetGroupTemp: readU16P8(dv, 7),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(Length)
+
+        writeU8(dv, 0, value.steamSettings, 'steamSettings')
+
+        writeU8(dv, 1, value.targetSteamTemp, 'targetSteamTemp')
+
+        writeU8(dv, 2, value.targetSteamLength, 'targetSteamLength')
+
+        writeU8(dv, 3, value.targetHotWaterTemp, 'targetHotWaterTemp')
+
+        writeU8(dv, 4, value.targetHotWaterVol, 'targetHotWaterVol')
+
+        writeU8(dv, 5, value.targetHotWaterLength, 'targetHotWaterLength')
+
+        writeU8(dv, 6, value.targetEspressoVol, 'targetEspressoVol')
+
+        writeU16P8(dv, 7, value.targetGroupTemp, 'targetGroupTemp')
+
+        return data
+    },
+}
@@ -0,0 +1,35 @@
+import { Codec, MachineState, StateInfo } from '../types'
+import { alloc, view, writeU8 } from './fixedPoint'
+
+export const requestedStateCodec: Codec<MachineState> = {
+    decode(data) {
+        return view(data, 1, 'RequestedState').getUint8(0)
+    },
+    encode(value) {
+        const { data, dv } = alloc(1)
+
+        writeU8(dv, 0, value, 'state')
+
+        return data
+    },
+}
+
+export const stateInfoCodec: Codec<StateInfo> = {
+    decode(data) {
+        const dv = view(data, 2, 'StateInfo')
+
+        return {
+            state: dv.getUint8(0),
+            substate: dv.getUint8(1),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(2)
+
+        writeU8(dv, 0, value.state, 'state')
+
+        writeU8(dv, 1, value.substate, 'substate')
+
+        return data
+    },
+}
@@ -0,0 +1,36 @@
+import { Codec, Temperatures } from '../types'
+import { alloc, readU16P8, view, writeU16P8 } from './fixedPoint'
+
+const Fields: (keyof Temperatures)[] = [
+    'waterHeater',
+    'steamHeater',
+    'groupHead',
+    'coldWater',
+    'targetWaterHeater',
+    'targetSteamHeater',
+    'targetGroupHead',
+    'targetColdWater',
+]
+
+export const temperaturesCodec: Codec<Temperatures> = {
+    decode(data) {
+        const dv = view(data, Fields.length * 2, 'Temperatures')
+
+        const value = {} as Temperatures
+
+        Fields.forEach((field, i) => {
+            value[field] = readU16P8(dv, i * 2)
+        })
+
+        return value
+    },
+    encode(value) {
+        const { data, dv } = alloc(Fields.length * 2)
+
+        Fields.forEach((field, i) => {
+            writeU16P8(dv, i * 2, value[field], field)
+        })
+
+        return data
+    },
+}
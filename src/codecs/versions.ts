@@ -0,0 +1,46 @@
+import { Codec, VersionInfo, Versions } from '../types'
+import { alloc, view, writeU16, writeU32, writeU8 } from './fixedPoint'
+
+const BlockLength = 9
+
+function readBlock(dv: DataView, offset: number): VersionInfo {
+    return {
+        apiVersion: dv.getUint8(offset),
+        release: dv.getUint8(offset + 1),
+        commits: dv.getUint16(offset + 2),
+        changes: dv.getUint8(offset + 4),
+        sha: dv.getUint32(offset + 5),
+    }
+}
+
+function writeBlock(dv: DataView, offset: number, info: VersionInfo) {
+    writeU8(dv, offset, info.apiVersion, 'apiVersion')
+
+    writeU8(dv, offset + 1, info.release, 'release')
+
+    writeU16(dv, offset + 2, info.commits, 'commits')
+
+    writeU8(dv, offset + 4, info.changes, 'changes')
+
+    writeU32(dv, offset + 5, info.sha, 'sha')
+}
+
+export const versionsCodec: Codec<Versions> = {
+    decode(data) {
+        const dv = view(data, BlockLength * 2, 'Versions')
+
+        return {
+            ble: readBlock(dv, 0),
+            fw: readBlock(dv, BlockLength),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(BlockLength * 2)
+
+        writeBlock(dv, 0, value.ble)
+
+        writeBlock(dv, BlockLength, value.fw)
+
+        return data
+    },
+}
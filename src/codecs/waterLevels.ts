@@ -0,0 +1,22 @@
+import { Codec, WaterLevels } from '../types'
+import { alloc, readU16P8, view, writeU16P8 } from './fixedPoint'
+
+export const waterLevelsCodec: Codec<WaterLevels> = {
+    decode(data) {
+        const dv = view(data, 4, 'WaterLevels')
+
+        return {
+            level: readU16P8(dv, 0),
+            startFillLevel: readU16P8(dv, 2),
+        }
+    },
+    encode(value) {
+        const { data, dv } = alloc(4)
+
+        writeU16P8(dv, 0, value.level, 'level')
+
+        writeU16P8(dv, 2, value.startFillLevel, 'startFillLevel')
+
+        return data
+    },
+}
@@ -0,0 +1,41 @@
+import { Request } from '../types'
+
+export default class CafeHubRequestError extends Error {
+    name = 'CafeHubRequestError'
+
+    readonly eid: number
+
+    readonly errmsg: string
+
+    readonly request: Request
+
+    readonly requestId: number
+
+    constructor({
+        eid,
+        errmsg,
+        request,
+        requestId,
+    }: {
+        eid: number
+        errmsg: string
+        request: Request
+        requestId: number
+    }) {
+        super(errmsg)
+
+        this.eid = eid
+
+        this.errmsg = errmsg
+
+        this.request = request
+
+        this.requestId = requestId
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, CafeHubRequestError)
+        }
+
+        Object.setPrototypeOf(this, CafeHubRequestError.prototype)
+    }
+}
@@ -0,0 +1,13 @@
+export default class CodecError extends Error {
+    name = 'CodecError'
+
+    constructor(message?: string) {
+        super(message)
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, CodecError)
+        }
+
+        Object.setPrototypeOf(this, CodecError.prototype)
+    }
+}
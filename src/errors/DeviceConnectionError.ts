@@ -0,0 +1,23 @@
+import { ConnectionState } from '../types'
+
+export default class DeviceConnectionError extends Error {
+    name = 'DeviceConnectionError'
+
+    readonly mac: string
+
+    readonly connectionState: ConnectionState
+
+    constructor(mac: string, connectionState: ConnectionState) {
+        super(`Failed to connect to ${mac} (${connectionState})`)
+
+        this.mac = mac
+
+        this.connectionState = connectionState
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, DeviceConnectionError)
+        }
+
+        Object.setPrototypeOf(this, DeviceConnectionError.prototype)
+    }
+}
@@ -0,0 +1,18 @@
+export default class FirmwareError extends Error {
+    name = 'FirmwareError'
+
+    // Where the machine found the first bad byte, if it got that far.
+    readonly firstError: undefined | number
+
+    constructor(message: string, firstError?: number) {
+        super(message)
+
+        this.firstError = firstError
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, FirmwareError)
+        }
+
+        Object.setPrototypeOf(this, FirmwareError.prototype)
+    }
+}
@@ -0,0 +1,13 @@
+export default class HubNotFoundError extends Error {
+    name = 'HubNotFoundError'
+
+    constructor(message?: string) {
+        super(message)
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, HubNotFoundError)
+        }
+
+        Object.setPrototypeOf(this, HubNotFoundError.prototype)
+    }
+}
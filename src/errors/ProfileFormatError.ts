@@ -0,0 +1,13 @@
+export default class ProfileFormatError extends Error {
+    name = 'ProfileFormatError'
+
+    constructor(message?: string) {
+        super(message)
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, ProfileFormatError)
+        }
+
+        Object.setPrototypeOf(this, ProfileFormatError.prototype)
+    }
+}
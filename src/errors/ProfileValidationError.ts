@@ -0,0 +1,17 @@
+export default class ProfileValidationError extends Error {
+    name = 'ProfileValidationError'
+
+    readonly issues: string[]
+
+    constructor(issues: string[]) {
+        super(issues.join('\n'))
+
+        this.issues = issues
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, ProfileValidationError)
+        }
+
+        Object.setPrototypeOf(this, ProfileValidationError.prototype)
+    }
+}
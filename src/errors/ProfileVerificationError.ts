@@ -0,0 +1,25 @@
+export default class ProfileVerificationError extends Error {
+    name = 'ProfileVerificationError'
+
+    readonly char: string
+
+    readonly expected: Uint8Array
+
+    readonly actual: Uint8Array
+
+    constructor(char: string, expected: Uint8Array, actual: Uint8Array) {
+        super(`Read-back of ${char} doesn't match what was written`)
+
+        this.char = char
+
+        this.expected = expected
+
+        this.actual = actual
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, ProfileVerificationError)
+        }
+
+        Object.setPrototypeOf(this, ProfileVerificationError.prototype)
+    }
+}
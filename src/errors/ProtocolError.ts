@@ -0,0 +1,21 @@
+export default class ProtocolError extends Error {
+    name = 'ProtocolError'
+
+    readonly issues: string[]
+
+    readonly raw: string
+
+    constructor(issues: string[], raw: string) {
+        super(issues.join('\n'))
+
+        this.issues = issues
+
+        this.raw = raw
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, ProtocolError)
+        }
+
+        Object.setPrototypeOf(this, ProtocolError.prototype)
+    }
+}
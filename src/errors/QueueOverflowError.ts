@@ -0,0 +1,13 @@
+export default class QueueOverflowError extends Error {
+    name = 'QueueOverflowError'
+
+    constructor() {
+        super()
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, QueueOverflowError)
+        }
+
+        Object.setPrototypeOf(this, QueueOverflowError.prototype)
+    }
+}
@@ -0,0 +1,13 @@
+export default class TrafficFormatError extends Error {
+    name = 'TrafficFormatError'
+
+    constructor(message?: string) {
+        super(message)
+
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, TrafficFormatError)
+        }
+
+        Object.setPrototypeOf(this, TrafficFormatError.prototype)
+    }
+}
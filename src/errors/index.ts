@@ -1,3 +1,14 @@
 export { default as AbortError } from './AbortError'
+export { default as CafeHubRequestError } from './CafeHubRequestError'
+export { default as CodecError } from './CodecError'
+export { default as DeviceConnectionError } from './DeviceConnectionError'
+export { default as FirmwareError } from './FirmwareError'
+export { default as HubNotFoundError } from './HubNotFoundError'
+export { default as ProfileFormatError } from './ProfileFormatError'
+export { default as ProfileValidationError } from './ProfileValidationError'
+export { default as ProfileVerificationError } from './ProfileVerificationError'
+export { default as ProtocolError } from './ProtocolError'
+export { default as QueueOverflowError } from './QueueOverflowError'
 export { default as SocketNotReadyError } from './SocketNotReadyError'
 export { default as TimeoutError } from './TimeoutError'
+export { default as TrafficFormatError } from './TrafficFormatError'
@@ -0,0 +1,73 @@
+import FirmwareError from '../errors/FirmwareError'
+import { FirmwareHeader, FirmwareImage } from '../types'
+
+export const HeaderLength = 64
+
+export const BoardMarker = 0xde100001
+
+// What `FWMapRequest.firstError` says once the machine has verified the image successfully.
+export const MapSuccess = 0xfffffd
+
+// 32-bit wrapping sum of little-endian words. Trailing bytes are padded with zeros.
+export function getChecksum(data: Uint8Array) {
+    let sum = 0
+
+    for (let i = 0; i < data.length; i += 4) {
+        const word =
+            (data[i] | ((data[i + 1] || 0) << 8) | ((data[i + 2] || 0) << 16)) +
+            (data[i + 3] || 0) * 0x1000000
+
+        sum = (sum + word) % 0x100000000
+    }
+
+    return sum
+}
+
+export function parseFirmwareHeader(data: Uint8Array): FirmwareHeader {
+    if (data.byteLength < HeaderLength) {
+        throw new FirmwareError(`Firmware has to be at least ${HeaderLength} bytes`)
+    }
+
+    const dv = new DataView(data.buffer, data.byteOffset, HeaderLength)
+
+    return {
+        checksum: dv.getUint32(0, true),
+        boardMarker: dv.getUint32(4, true),
+        version: dv.getUint32(8, true),
+        byteCount: dv.getUint32(12, true),
+        cpuBytes: dv.getUint32(16, true),
+        dcSum: dv.getUint32(24, true),
+        iv: data.slice(28, 60),
+        headerChecksum: dv.getUint32(60, true),
+    }
+}
+
+// Reads and validates a DE1 firmware file (marker, length and both checksums).
+export function parseFirmwareImage(input: ArrayBuffer | Uint8Array): FirmwareImage {
+    const data = input instanceof Uint8Array ? input : new Uint8Array(input)
+
+    const header = parseFirmwareHeader(data)
+
+    if (header.boardMarker !== BoardMarker) {
+        throw new FirmwareError(`Unknown board marker: 0x${header.boardMarker.toString(16)}`)
+    }
+
+    if (getChecksum(data.subarray(0, HeaderLength - 4)) !== header.headerChecksum) {
+        throw new FirmwareError('Header checksum mismatch')
+    }
+
+    if (data.byteLength !== HeaderLength + header.byteCount) {
+        throw new FirmwareError(
+            `Expected ${HeaderLength + header.byteCount} bytes, got ${data.byteLength}`
+        )
+    }
+
+    if (getChecksum(data.subarray(HeaderLength)) !== header.checksum) {
+        throw new FirmwareError('Checksum mismatch')
+    }
+
+    return {
+        header,
+        data,
+    }
+}
@@ -0,0 +1,750 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import CafeHubClient from './index'
+import AbortError from './errors/AbortError'
+import CafeHubRequestError from './errors/CafeHubRequestError'
+import ProtocolError from './errors/ProtocolError'
+import SocketNotReadyError from './errors/SocketNotReadyError'
+import TimeoutError from './errors/TimeoutError'
+import MockCafeHub from './testing/MockCafeHub'
+import MockDe1 from './testing/MockDe1'
+import MockWebSocket from './testing/MockWebSocket'
+import {
+    CafeHubEvent,
+    CafeHubState,
+    CharAddr,
+    ConnectionState,
+    De1ServiceUUID,
+    Device,
+    GATTNotifyUpdate,
+    MachineState,
+    MachineSubstate,
+    MessageType,
+    ProtocolErrorEvent,
+    RawMessage,
+    ReconnectFailedEvent,
+    ReconnectingEvent,
+    RequestCommand,
+    Session,
+    SessionRestoreFailedEvent,
+    UpdateType,
+    ValidationMode,
+} from './types'
+import delay from './utils/delay'
+import toBase64 from './utils/toBase64'
+
+const Url = 'ws://hub.local:8765'
+
+describe('CafeHubClient', () => {
+    let hub: MockCafeHub
+
+    let de1: MockDe1
+
+    let client: CafeHubClient
+
+    beforeEach(() => {
+        hub = new MockCafeHub()
+
+        de1 = new MockDe1()
+
+        hub.addDevice(de1)
+
+        client = new CafeHubClient({
+            webSocketFactory: hub.webSocketFactory,
+            autoReconnect: {
+                initialDelay: 1,
+            },
+        })
+    })
+
+    afterEach(() => {
+        client.teardown()
+    })
+
+    describe('connect', () => {
+        it('connects to the hub', async () => {
+            const states: CafeHubState[] = []
+
+            client.on(CafeHubEvent.StateChange, (state) => void states.push(state))
+
+            await client.connect(Url)
+
+            expect(client.getState()).toBe(CafeHubState.Connected)
+
+            expect(states).toEqual([CafeHubState.Connecting, CafeHubState.Connected])
+        })
+
+        it('rejects when the hub is unreachable', async () => {
+            hub.online = false
+
+            await expect(client.connect(Url)).rejects.toMatchObject({
+                code: 1006,
+            })
+
+            expect(client.getState()).toBe(CafeHubState.Disconnected)
+        })
+
+        it('retries until the hub shows up', async () => {
+            hub.online = false
+
+            const attempts: number[] = []
+
+            client.on(CafeHubEvent.Reconnecting, ({ attempt }) => {
+                attempts.push(attempt)
+
+                hub.online = attempt === 2
+            })
+
+            await client.connect(Url, {
+                reconnectPolicy: {
+                    initialDelay: 1,
+                },
+            })
+
+            expect(client.getState()).toBe(CafeHubState.Connected)
+
+            expect(attempts).toEqual([1, 2])
+
+            // Retrying the initial connection isn't reconnecting.
+            expect(client.getDiagnostics().counters.reconnectAttempts).toBe(0)
+        })
+
+        it('stops reconnecting when torn down from a reconnecting listener', async () => {
+            await client.connect(Url)
+
+            client.once(CafeHubEvent.Reconnecting, () => void client.teardown())
+
+            hub.dropConnections()
+
+            await new Promise((resolve) => setTimeout(resolve, 20))
+
+            expect(client.getState()).toBe(CafeHubState.Disconnected)
+        })
+
+        it('tears down once per drop', async () => {
+            await client.connect(Url)
+
+            let teardowns = 0
+
+            client.on(CafeHubEvent.Teardown, () => void teardowns++)
+
+            const reconnected = new Promise<void>((resolve) => {
+                client.once(CafeHubEvent.Connect, resolve)
+            })
+
+            hub.dropConnections()
+
+            await reconnected
+
+            expect(teardowns).toBe(1)
+        })
+
+        it('gives up reconnecting after maxAttempts', async () => {
+            client = new CafeHubClient({
+                webSocketFactory: hub.webSocketFactory,
+                autoReconnect: {
+                    initialDelay: 1,
+                    maxAttempts: 2,
+                },
+            })
+
+            await client.connect(Url)
+
+            const attempts: number[] = []
+
+            client.on(CafeHubEvent.Reconnecting, ({ attempt }) => void attempts.push(attempt))
+
+            const failed = new Promise<ReconnectFailedEvent>((resolve) => {
+                client.once(CafeHubEvent.ReconnectFailed, resolve)
+            })
+
+            hub.online = false
+
+            hub.dropConnections()
+
+            expect(await failed).toMatchObject({
+                attempts: 2,
+                closeEvent: {
+                    code: 1006,
+                },
+            })
+
+            expect(attempts).toEqual([1, 2])
+
+            expect(client.getState()).toBe(CafeHubState.Disconnected)
+        })
+
+        it("doesn't reconnect when shouldRetry says no", async () => {
+            client = new CafeHubClient({
+                webSocketFactory: hub.webSocketFactory,
+                autoReconnect: {
+                    initialDelay: 1,
+                    shouldRetry: ({ code }) => code !== 4001,
+                },
+            })
+
+            await client.connect(Url)
+
+            const failed = new Promise<ReconnectFailedEvent>((resolve) => {
+                client.once(CafeHubEvent.ReconnectFailed, resolve)
+            })
+
+            hub.dropConnections(4001)
+
+            expect(await failed).toMatchObject({
+                attempts: 0,
+            })
+
+            expect(client.getDiagnostics().counters.reconnectAttempts).toBe(0)
+        })
+    })
+
+    describe('scan', () => {
+        it('finds devices', async () => {
+            hub.addDevice(new MockDe1('D9:B2:48:00:00:02', { name: 'Other' }))
+
+            const devices = await client.connect(Url).then(() => client.scan().devices)
+
+            expect(devices.map(({ MAC, Name }) => ({ MAC, Name }))).toEqual([
+                {
+                    MAC: de1.mac,
+                    Name: 'DE1',
+                },
+                {
+                    MAC: 'D9:B2:48:00:00:02',
+                    Name: 'Other',
+                },
+            ])
+
+            expect(client.getDevice(de1.mac)?.UUIDs).toEqual([De1ServiceUUID])
+        })
+
+        it('applies filters', async () => {
+            hub.addDevice(new MockDe1('D9:B2:48:00:00:02', { name: 'Other' }))
+
+            await client.connect(Url)
+
+            const devices = await client.scan({
+                nameFilter: /^oth/i,
+            }).devices
+
+            expect(devices.map(({ MAC }) => MAC)).toEqual(['D9:B2:48:00:00:02'])
+        })
+
+        it('finds a DE1', async () => {
+            await client.connect(Url)
+
+            expect((await client.findDE1())?.MAC).toBe(de1.mac)
+        })
+
+        it('forgets devices a later scan misses', async () => {
+            await client.connect(Url)
+
+            await client.scan().devices
+
+            const lost: Device[] = []
+
+            client.on(CafeHubEvent.DeviceLost, (device) => void lost.push(device))
+
+            hub.removeDevice(de1.mac)
+
+            await client.scan().devices
+
+            expect(lost.map(({ MAC }) => MAC)).toEqual([de1.mac])
+
+            expect(client.getDevice(de1.mac)).toBeUndefined()
+        })
+
+        it('stops waiting for the scan once aborted', async () => {
+            hub.scanDuration = 1000
+
+            await client.connect(Url)
+
+            const controller = new AbortController()
+
+            const { devices } = client.scan({
+                signal: controller.signal,
+            })
+
+            await delay(0)
+
+            expect(client.getDiagnostics().pendingRequests).toMatchObject([
+                {
+                    command: RequestCommand.Scan,
+                },
+            ])
+
+            controller.abort()
+
+            await expect(devices).rejects.toBeInstanceOf(AbortError)
+
+            expect(client.getDiagnostics().pendingRequests).toEqual([])
+        })
+    })
+
+    describe('gattConnect', () => {
+        beforeEach(() => client.connect(Url))
+
+        it('connects to a device', async () => {
+            const { results } = await client.gattConnect(de1.mac)
+
+            expect(results.CState).toBe(ConnectionState.Connected)
+
+            expect(hub.isConnected(de1.mac)).toBe(true)
+
+            expect(client.getDevice(de1.mac)).toEqual({
+                MAC: de1.mac,
+                Name: '',
+                UUIDs: [De1ServiceUUID],
+                connectionState: ConnectionState.Connected,
+            })
+        })
+
+        it('reports devices it failed to connect to', async () => {
+            const { results } = await client.gattConnect('D9:B2:48:00:00:09')
+
+            expect(results.CState).toBe(ConnectionState.Disconnected)
+        })
+
+        it('disconnects from a device', async () => {
+            await client.gattConnect(de1.mac)
+
+            const { results } = await client.gattDisconnect(de1.mac)
+
+            expect(results.CState).toBe(ConnectionState.Disconnected)
+
+            expect(hub.isConnected(de1.mac)).toBe(false)
+        })
+    })
+
+    describe('read, write and subscribe', () => {
+        beforeEach(async () => {
+            await client.connect(Url)
+
+            await client.gattConnect(de1.mac)
+        })
+
+        it('reads characteristics', async () => {
+            de1.setState(MachineState.Idle)
+
+            const { data } = await client.gattRead(de1.mac, CharAddr.StateInfo)
+
+            expect(Array.from(data)).toEqual([MachineState.Idle, MachineSubstate.NoState])
+        })
+
+        it('writes characteristics', async () => {
+            await client.gattWrite(
+                de1.mac,
+                CharAddr.RequestedState,
+                Uint8Array.of(MachineState.Steam)
+            )
+
+            expect(de1.get(CharAddr.StateInfo).state).toBe(MachineState.Steam)
+
+            expect(hub.requests.pop()?.params).toMatchObject({
+                RR: true,
+            })
+        })
+
+        it('delivers notifications while they are enabled', async () => {
+            await client.gattSetNotify(de1.mac, CharAddr.StateInfo, true)
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(true)
+
+            const change = new Promise<GATTNotifyUpdate>((resolve) => {
+                client.once(CafeHubEvent.CharChange, resolve)
+            })
+
+            de1.setState(MachineState.Espresso, MachineSubstate.Pour)
+
+            expect((await change).results).toEqual({
+                MAC: de1.mac,
+                Char: CharAddr.StateInfo,
+                Data: toBase64(Uint8Array.of(MachineState.Espresso, MachineSubstate.Pour)),
+            })
+
+            await client.gattSetNotify(de1.mac, CharAddr.StateInfo, false)
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(false)
+        })
+
+        it('delivers decoded notifications to subscribers', async () => {
+            const changes: unknown[] = []
+
+            const unsubscribe = await client.subscribe(de1.mac, CharAddr.StateInfo, (value) => {
+                changes.push(value)
+            })
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(true)
+
+            const change = client.waitFor(CafeHubEvent.DecodedCharChange)
+
+            de1.setState(MachineState.Espresso, MachineSubstate.Pour)
+
+            expect((await change).value).toEqual({
+                state: MachineState.Espresso,
+                substate: MachineSubstate.Pour,
+            })
+
+            expect(changes).toEqual([
+                {
+                    state: MachineState.Espresso,
+                    substate: MachineSubstate.Pour,
+                },
+            ])
+
+            await unsubscribe()
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(false)
+        })
+
+        it('keeps notifications on while anyone is subscribed', async () => {
+            const first = await client.subscribe(de1.mac, CharAddr.StateInfo, () => void 0)
+
+            const second = await client.subscribe(de1.mac, CharAddr.StateInfo, () => void 0)
+
+            await first()
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(true)
+
+            await second()
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(false)
+        })
+
+        it('enables and disables notifications once for concurrent subscribers', async () => {
+            const setNotify = (enable: boolean) =>
+                hub.requests.filter(
+                    ({ command, params }) =>
+                        command === RequestCommand.GATTSetNotify &&
+                        (params as { Enable: boolean }).Enable === enable
+                )
+
+            const unsubscribes = await Promise.all([
+                client.subscribe(de1.mac, CharAddr.StateInfo, () => void 0),
+                client.subscribe(de1.mac, CharAddr.StateInfo, () => void 0),
+                client.subscribe(de1.mac, CharAddr.StateInfo, () => void 0),
+            ])
+
+            expect(setNotify(true)).toHaveLength(1)
+
+            await Promise.all(unsubscribes.map((unsubscribe) => unsubscribe()))
+
+            expect(setNotify(false)).toHaveLength(1)
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(false)
+        })
+
+        it('keeps notifications on for whoever subscribes while the last one leaves', async () => {
+            const unsubscribe = await client.subscribe(de1.mac, CharAddr.StateInfo, () => void 0)
+
+            const leaving = unsubscribe()
+
+            const resubscribing = client.subscribe(de1.mac, CharAddr.StateInfo, () => void 0)
+
+            await leaving
+
+            const resubscribe = await resubscribing
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(true)
+
+            await resubscribe()
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(false)
+        })
+    })
+
+    describe('session restore', () => {
+        beforeEach(async () => {
+            await client.connect(Url)
+
+            await client.gattConnect(de1.mac)
+
+            await client.subscribe(de1.mac, CharAddr.StateInfo, () => void 0)
+        })
+
+        it('reconnects and restores the session after a drop', async () => {
+            // Not through `waitFor`, the drop tears the client down.
+            const reconnecting = new Promise<ReconnectingEvent>((resolve) => {
+                client.once(CafeHubEvent.Reconnecting, resolve)
+            })
+
+            const restored = new Promise<Session>((resolve) => {
+                client.once(CafeHubEvent.SessionRestored, resolve)
+            })
+
+            hub.dropConnections()
+
+            expect(await reconnecting).toMatchObject({
+                attempt: 1,
+                closeEvent: {
+                    code: 1006,
+                },
+            })
+
+            expect(await restored).toEqual({
+                devices: [de1.mac],
+                notifications: [
+                    {
+                        MAC: de1.mac,
+                        Char: CharAddr.StateInfo,
+                    },
+                ],
+            })
+
+            expect(hub.isConnected(de1.mac)).toBe(true)
+
+            expect(hub.isNotifying(de1.mac, CharAddr.StateInfo)).toBe(true)
+
+            expect(client.getDiagnostics().counters.reconnectAttempts).toBe(1)
+        })
+
+        it('reports what it failed to restore', async () => {
+            const failed = new Promise<SessionRestoreFailedEvent>((resolve) => {
+                client.once(CafeHubEvent.SessionRestoreFailed, resolve)
+            })
+
+            hub.failNext(
+                {
+                    eid: 1,
+                    errmsg: 'Out of range',
+                },
+                RequestCommand.GATTConnect
+            )
+
+            hub.dropConnections()
+
+            const { failures } = await failed
+
+            expect(failures).toHaveLength(1)
+
+            expect(failures[0].MAC).toBe(de1.mac)
+
+            expect(failures[0].error).toBeInstanceOf(CafeHubRequestError)
+        })
+
+        it('skips restoring when torn down while reconnecting', async () => {
+            let failed = false
+
+            client.on(CafeHubEvent.SessionRestoreFailed, () => {
+                failed = true
+            })
+
+            // Slow enough for the teardown to land while the socket is still opening.
+            hub.latency = 20
+
+            client.on(CafeHubEvent.StateChange, (state) => {
+                if (state === CafeHubState.Connecting) {
+                    setTimeout(() => void client.teardown())
+                }
+            })
+
+            hub.dropConnections()
+
+            await new Promise((resolve) => setTimeout(resolve, 50))
+
+            expect(failed).toBe(false)
+
+            expect(client.getState()).toBe(CafeHubState.Disconnected)
+        })
+    })
+
+    describe('errors', () => {
+        it('throws SocketNotReadyError when not connected', async () => {
+            await expect(client.gattConnect(de1.mac)).rejects.toBeInstanceOf(SocketNotReadyError)
+        })
+
+        it('maps failed responses to CafeHubRequestError', async () => {
+            await client.connect(Url)
+
+            hub.failNext({
+                eid: 7,
+                errmsg: 'Not permitted',
+            })
+
+            const error = await client.gattRead(de1.mac, CharAddr.StateInfo).catch((e) => e)
+
+            expect(error).toBeInstanceOf(CafeHubRequestError)
+
+            expect(error).toMatchObject({
+                eid: 7,
+                errmsg: 'Not permitted',
+                request: {
+                    command: RequestCommand.GATTRead,
+                },
+            })
+        })
+
+        it('maps ExecutionError updates to CafeHubRequestError', async () => {
+            client = new CafeHubClient({
+                webSocketFactory(url) {
+                    const ws: MockWebSocket = new MockWebSocket(url, {
+                        onSend(data) {
+                            const { id } = JSON.parse(data)
+
+                            setTimeout(() => {
+                                ws.receive(
+                                    JSON.stringify({
+                                        id,
+                                        type: MessageType.Update,
+                                        update: UpdateType.ExecutionError,
+                                        results: {
+                                            eid: 2,
+                                            errmsg: 'Busy',
+                                        },
+                                    })
+                                )
+                            })
+                        },
+                    })
+
+                    setTimeout(() => void ws.open())
+
+                    return ws
+                },
+            })
+
+            await client.connect(Url)
+
+            await expect(client.gattConnect(de1.mac)).rejects.toMatchObject({
+                name: 'CafeHubRequestError',
+                eid: 2,
+                errmsg: 'Busy',
+            })
+        })
+
+        it('times out requests the hub never answers', async () => {
+            await client.connect(Url)
+
+            hub.silent = true
+
+            await expect(
+                client.gattRead(de1.mac, CharAddr.StateInfo, {
+                    timeout: 10,
+                })
+            ).rejects.toBeInstanceOf(TimeoutError)
+
+            expect(client.getDiagnostics().counters.timedOutRequests).toBe(1)
+        })
+    })
+
+    describe('validation', () => {
+        let socket: MockWebSocket
+
+        // Answers every request with `error.errmsg` of the wrong type.
+        function createClient(validation?: ValidationMode) {
+            return new CafeHubClient({
+                validation,
+                webSocketFactory(url) {
+                    const ws: MockWebSocket = new MockWebSocket(url, {
+                        onSend(data) {
+                            const { id } = JSON.parse(data)
+
+                            setTimeout(() => {
+                                ws.receive(
+                                    JSON.stringify({
+                                        id,
+                                        type: MessageType.Response,
+                                        error: {
+                                            eid: 0,
+                                            errmsg: null,
+                                        },
+                                        results: {},
+                                    })
+                                )
+                            })
+                        },
+                    })
+
+                    setTimeout(() => void ws.open())
+
+                    socket = ws
+
+                    return ws
+                },
+            })
+        }
+
+        function collectProtocolErrors() {
+            const events: ProtocolErrorEvent[] = []
+
+            client.on(CafeHubEvent.ProtocolError, (event) => void events.push(event))
+
+            return events
+        }
+
+        it('reports malformed messages and handles them anyway by default', async () => {
+            client = createClient()
+
+            const events = collectProtocolErrors()
+
+            await client.connect(Url)
+
+            await client.gattSetNotify(de1.mac, CharAddr.StateInfo, true)
+
+            expect(events).toEqual([
+                {
+                    raw: expect.any(String),
+                    issues: ['error.errmsg has to be a string'],
+                },
+            ])
+
+            expect(client.getDiagnostics().counters).toMatchObject({
+                protocolErrors: 1,
+                framesDropped: 0,
+            })
+        })
+
+        it('drops malformed messages in strict mode', async () => {
+            client = createClient(ValidationMode.Strict)
+
+            const events = collectProtocolErrors()
+
+            await client.connect(Url)
+
+            const error = await client
+                .gattSetNotify(de1.mac, CharAddr.StateInfo, true)
+                .catch((e) => e)
+
+            expect(error).toBeInstanceOf(ProtocolError)
+
+            expect(error).toMatchObject({
+                issues: ['error.errmsg has to be a string'],
+                raw: events[0].raw,
+            })
+
+            expect(client.getDiagnostics().counters).toMatchObject({
+                protocolErrors: 1,
+                framesDropped: 1,
+            })
+        })
+
+        it('drops frames that are not JSON in either mode', async () => {
+            for (const validation of [ValidationMode.Lenient, ValidationMode.Strict]) {
+                client = createClient(validation)
+
+                const events = collectProtocolErrors()
+
+                const data: RawMessage[] = []
+
+                client.on(CafeHubEvent.Data, (message) => void data.push(message))
+
+                await client.connect(Url)
+
+                socket.receive('{"id":')
+
+                expect(events).toEqual([
+                    {
+                        raw: '{"id":',
+                        issues: ['Message is not valid JSON'],
+                    },
+                ])
+
+                expect(data).toEqual([])
+
+                expect(client.getDiagnostics().counters.framesDropped).toBe(1)
+
+                client.teardown()
+            }
+        })
+    })
+})
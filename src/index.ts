@@ -1,35 +1,129 @@
 import { EventEmitter } from 'events'
 import AbortError from './errors/AbortError'
+import { decode, isCharAddr } from './codecs/index'
+import CafeHubRequestError from './errors/CafeHubRequestError'
+import CodecError from './errors/CodecError'
+import DeviceConnectionError from './errors/DeviceConnectionError'
+import ProtocolError from './errors/ProtocolError'
 import {
     CafeHubEvent,
+    CafeHubEventPayload,
     CafeHubState,
+    CharAddr,
+    CharChange,
+    CharListener,
+    ClientCounters,
+    ClientOptions,
+    CloseEventLike,
+    ConnectionDeadEvent,
     ConnectionState,
+    ConnectionStateUpdate,
     ConnectOptions,
+    De1ServiceUUID,
     Defer,
     Device,
+    Diagnostics,
+    EventsOptions,
     GATTNotifyUpdate,
+    GATTReadReply,
+    GATTWriteOptions,
+    getReplyError,
+    HeartbeatOptions,
     isGATTNotifyUpdate,
+    isCloseEvent,
+    isConnectionOutcome,
+    isConnectionStateUpdate,
+    isResponseMessage,
     isScanResultUpdate,
     isUpdateMessage,
+    LogContext,
+    Logger,
+    LogLevel,
+    MessageEventLike,
     MessageType,
+    MetricsOptions,
+    MetricsSnapshot,
+    MMRRegister,
+    MMRRegisterInfo,
+    PendingRequestInfo,
+    Profile,
+    ProtocolErrorEvent,
     RawMessage,
+    ReconnectFailedEvent,
+    ReconnectingEvent,
+    ReconnectPolicy,
+    ReplyFor,
+    ReplyMessage,
     Request,
+    RequestCommand,
     RequestMessage,
+    RequestOutcome,
+    RequestPriority,
     Requests,
+    ResponseMessage,
+    ScanOptions,
     SendOptions,
+    Session,
+    SessionNotification,
+    SessionRestoreFailedEvent,
+    SessionRestoreFailure,
+    Unsubscribe,
     UpdateMessage,
+    UploadProfileOptions,
+    ValidationMode,
+    WaitForOptions,
+    WebSocketFactory,
+    WebSocketLike,
 } from './types'
+import MetricsCollector from './metrics/MetricsCollector'
+import readMMR from './mmr/read'
+import writeMMR from './mmr/write'
+import scan from './scan/scan'
+import { getMessageIssues } from './protocol/messages'
+import uploadProfile from './profile/upload'
+import RequestScheduler from './RequestScheduler'
 import defer from './utils/defer'
+import eventIterator from './utils/eventIterator'
+import waitForEvent from './utils/waitForEvent'
+import backoff from './utils/backoff'
 import delay from './utils/delay'
+import fromBase64 from './utils/fromBase64'
+import toBase64 from './utils/toBase64'
 import connectUtil from './utils/connect'
 import SocketNotReadyError from './errors/SocketNotReadyError'
 import TimeoutError from './errors/TimeoutError'
 
+export { default as CafeHubPool } from './CafeHubPool'
+export { default as De1 } from './De1'
+export { default as FirmwareUploader } from './FirmwareUploader'
+export { parseFirmwareImage } from './firmware/image'
+export { getMessageIssues, isInboundMessage } from './protocol/messages'
+export { default as ShotRecorder } from './ShotRecorder'
+
 const MaxRequestId = 1000000000
 
-const ReconnectAfter = {
-    Step: 250,
-    Max: 10000,
+function getRequestContext(id: number, { command, params }: Request): LogContext {
+    const { MAC, Char } = params as { MAC?: unknown; Char?: unknown }
+
+    return {
+        requestId: id,
+        command,
+        ...(typeof MAC === 'string' ? { MAC } : {}),
+        ...(typeof Char === 'string' ? { Char } : {}),
+    }
+}
+
+interface InFlightRequest {
+    request: Request
+    sentAt: number
+}
+
+interface Subscription {
+    listeners: Set<CharListener>
+    // Set if notifications got enabled for this subscription. They're only disabled then.
+    owned: boolean
+    // Shared by subscribers that show up while notifications are being enabled.
+    enabling?: Promise<void>
 }
 
 export default class CafeHubClient extends EventEmitter {
@@ -37,7 +131,63 @@ export default class CafeHubClient extends EventEmitter {
 
     private requests: Requests = {}
 
-    private ws: undefined | WebSocket
+    private devices = new Map<string, Device>()
+
+    private scans: Record<string, Set<string>> = {}
+
+    private notifications = new Map<string, SessionNotification>()
+
+    private subscriptions = new Map<string, Subscription>()
+
+    // Pending `Enable: false` requests. New subscribers wait for them to finish.
+    private unsubscribing = new Map<string, Promise<void>>()
+
+    // Set while a session is being restored, so that losing the socket mid-way doesn't lose it.
+    private pendingSession: undefined | Session
+
+    // Automatic reconnects in progress. Scheduled requests wait for them to restore the session.
+    private reconnects = 0
+
+    private ws: undefined | WebSocketLike
+
+    private url: undefined | string
+
+    private readonly webSocketFactory: undefined | WebSocketFactory
+
+    private readonly autoReconnect: boolean | ReconnectPolicy
+
+    private readonly heartbeat: undefined | HeartbeatOptions
+
+    private readonly requestTimeout: undefined | number
+
+    private readonly validation: ValidationMode
+
+    private readonly logger: undefined | Logger
+
+    private readonly metrics: undefined | MetricsCollector
+
+    private readonly metricsInterval: undefined | number
+
+    private metricsIntervalId: undefined | ReturnType<typeof setInterval>
+
+    private readonly inFlight = new Map<number, InFlightRequest>()
+
+    private readonly counters: ClientCounters = {
+        framesIn: 0,
+        framesOut: 0,
+        framesDropped: 0,
+        protocolErrors: 0,
+        requests: 0,
+        failedRequests: 0,
+        timedOutRequests: 0,
+        reconnectAttempts: 0,
+    }
+
+    private heartbeatIntervalId: undefined | ReturnType<typeof setInterval>
+
+    private lastActivityAt = 0
+
+    private readonly scheduler: undefined | RequestScheduler
 
     private abortController: undefined | AbortController
 
@@ -50,11 +200,51 @@ export default class CafeHubClient extends EventEmitter {
     private setState(state: CafeHubState) {
         if (this.state !== state) {
             this.state = state
+            this.log(LogLevel.Debug, 'State changed', { state })
             this.emit(CafeHubEvent.StateChange, state)
+
+            if (state === CafeHubState.Connected) {
+                this.scheduler?.pump()
+            }
+
+            if (state === CafeHubState.Disconnected) {
+                this.scheduler?.clear(new SocketNotReadyError())
+
+                this.stopMetrics()
+            } else {
+                this.startMetrics()
+            }
         }
     }
 
+    private startMetrics() {
+        if (!this.metrics || !this.metricsInterval || this.metricsIntervalId !== undefined) {
+            return
+        }
+
+        const { metrics } = this
+
+        this.metricsIntervalId = setInterval(() => {
+            this.emit(CafeHubEvent.Metrics, metrics.getSnapshot())
+        }, this.metricsInterval)
+    }
+
+    private stopMetrics() {
+        if (this.metricsIntervalId !== undefined) {
+            clearInterval(this.metricsIntervalId)
+
+            this.metricsIntervalId = undefined
+        }
+    }
+
+    // Undefined unless the client was created with the `metrics` option.
+    getMetrics() {
+        return this.metrics?.getSnapshot()
+    }
+
     teardown() {
+        this.stopHeartbeat()
+
         this.ws?.removeEventListener('message', this.onMessage)
 
         this.ws?.removeEventListener('close', this.onClose)
@@ -65,6 +255,15 @@ export default class CafeHubClient extends EventEmitter {
 
         this.setState(CafeHubState.Disconnected)
 
+        // Without the hub there are no GATT connections.
+        this.devices.forEach(({ connectionState }, mac) => {
+            if (connectionState === ConnectionState.Connected) {
+                this.updateDevice(mac, {
+                    connectionState: ConnectionState.Disconnected,
+                })
+            }
+        })
+
         this.abortController?.abort()
 
         this.abortController = new AbortController()
@@ -76,67 +275,335 @@ export default class CafeHubClient extends EventEmitter {
 
         this.requests = {}
 
+        this.pendingSession = undefined
+
         this.emit(CafeHubEvent.Teardown)
     }
 
-    private onMessage = (e: MessageEvent<string>) => {
-        let data: undefined | Record<string, unknown>
+    private onMessage = (e: MessageEventLike) => {
+        this.lastActivityAt = Date.now()
+
+        this.counters.framesIn++
+
+        this.metrics?.observeFrameIn()
+
+        const raw = String(e.data)
+
+        let data: unknown
 
         try {
-            data = JSON.parse(e.data)
+            data = JSON.parse(raw)
+        } catch (e) {
+            this.counters.framesDropped++
+
+            return void this.reportProtocolError(raw, ['Message is not valid JSON'])
+        }
+
+        const issues = getMessageIssues(data)
+
+        if (issues.length) {
+            this.reportProtocolError(raw, issues)
 
             if (data !== Object(data)) {
-                // Filter out primitives.
+                // Nothing to handle in primitives, whatever the mode.
+                return void this.counters.framesDropped++
+            }
+
+            if (this.validation === ValidationMode.Strict) {
+                this.counters.framesDropped++
+
+                const { id } = data as RawMessage
+
+                if (typeof id === 'number' && this.requests[id]) {
+                    // Don't leave the request hanging on a reply we've dropped.
+                    this.requests[id].reject(new ProtocolError(issues, raw))
+                }
+
                 return
             }
-        } catch (e) {
-            return
         }
 
-        this.emit(CafeHubEvent.Data, data)
+        this.emit(CafeHubEvent.Data, data as RawMessage)
     }
 
-    private onClose = async (e: CloseEvent) => {
+    private reportProtocolError(raw: string, issues: string[]) {
+        this.counters.protocolErrors++
+
+        this.log(LogLevel.Warn, 'Invalid frame', {
+            raw,
+            issues,
+        })
+
+        const event: ProtocolErrorEvent = {
+            raw,
+            issues,
+        }
+
+        this.emit(CafeHubEvent.ProtocolError, event)
+    }
+
+    private onClose = async (e: CloseEventLike) => {
+        this.log(LogLevel.Info, 'Disconnected', {
+            url: this.url,
+            code: e.code,
+            reason: e.reason,
+        })
+
         this.emit(CafeHubEvent.Disconnect, e)
 
+        const session = this.pendingSession || this.getSession()
+
         this.teardown()
 
-        if (e.currentTarget instanceof WebSocket) {
+        const { url } = this
+
+        if (typeof url === 'string' && this.autoReconnect !== false) {
+            this.reconnects++
+
             try {
-                await this.connect(e.currentTarget.url, {
-                    retry: true,
-                })
+                await this.open(
+                    url,
+                    {
+                        retry: true,
+                        reconnectPolicy:
+                            this.autoReconnect === true ? undefined : this.autoReconnect,
+                    },
+                    e
+                )
+
+                if (this.state !== CafeHubState.Connected || this.url !== url) {
+                    // Torn down (or sent elsewhere) while reconnecting. The session went with it.
+                    return
+                }
+
+                // Doesn't throw, its failures get reported through events.
+                await this.restoreSession(session)
             } catch (e) {
                 this.setState(CafeHubState.Disconnected)
+            } finally {
+                this.reconnects--
+
+                this.scheduler?.pump()
             }
         }
     }
 
-    async connect(url: string, { retry = 0 }: ConnectOptions = {}) {
-        this.teardown()
+    getSession(): Session {
+        return {
+            devices: this.getDevices()
+                .filter(({ connectionState }) => connectionState === ConnectionState.Connected)
+                .map(({ MAC }) => MAC),
+            notifications: [...this.notifications.values()].map((n) => ({ ...n })),
+        }
+    }
+
+    private async restoreSession(session: Session) {
+        if (!session.devices.length) {
+            return
+        }
+
+        this.pendingSession = session
+
+        const failures: SessionRestoreFailure[] = []
+
+        try {
+            for (const MAC of session.devices) {
+                try {
+                    // Straight to the hub, the scheduler holds everything else until we're done.
+                    const { results } = (await this.dispatchRequest(
+                        {
+                            command: RequestCommand.GATTConnect,
+                            params: {
+                                MAC,
+                            },
+                        },
+                        {
+                            resolveIf: isConnectionOutcome,
+                        }
+                    )) as ConnectionStateUpdate
+
+                    if (results.CState !== ConnectionState.Connected) {
+                        throw new DeviceConnectionError(MAC, results.CState)
+                    }
+                } catch (error) {
+                    if (error instanceof AbortError) {
+                        throw error
+                    }
+
+                    failures.push({
+                        MAC,
+                        error,
+                    })
+
+                    continue
+                }
+
+                for (const { Char } of session.notifications.filter((n) => n.MAC === MAC)) {
+                    try {
+                        await this.dispatchRequest({
+                            command: RequestCommand.GATTSetNotify,
+                            params: {
+                                MAC,
+                                Char,
+                                Enable: true,
+                            },
+                        })
+                    } catch (error) {
+                        if (error instanceof AbortError) {
+                            throw error
+                        }
+
+                        failures.push({
+                            MAC,
+                            Char,
+                            error,
+                        })
+                    }
+                }
+            }
+        } catch (e) {
+            // Torn down mid-way. If it was the socket closing again, `onClose` picks it up.
+            return
+        }
+
+        this.pendingSession = undefined
+
+        if (failures.length) {
+            const event: SessionRestoreFailedEvent = {
+                session,
+                failures,
+            }
+
+            return void this.emit(CafeHubEvent.SessionRestoreFailed, event)
+        }
+
+        this.emit(CafeHubEvent.SessionRestored, session)
+    }
+
+    async connect(url: string, options: ConnectOptions = {}) {
+        return this.open(url, options)
+    }
+
+    // With `dropped`, this is a reconnect after the socket closed on us. The policy decides
+    // whether (and when) to make the first attempt too, and every attempt counts.
+    private async open(
+        url: string,
+        { reconnectPolicy, retry = reconnectPolicy ? true : 0 }: ConnectOptions,
+        dropped?: CloseEventLike
+    ) {
+        // After a drop, `onClose` has torn down already.
+        if (!dropped) {
+            this.teardown()
+        }
+
+        // Held on to, so a teardown from any of the listeners below still stops us.
+        const abortSignal = this.abortController?.signal
+
+        this.url = url
 
         this.setState(CafeHubState.Connecting)
 
-        let ws: WebSocket
+        let ws: WebSocketLike
 
         let reanimateAfter: undefined | number
 
         let retryCount = 0
 
+        const startedAt = Date.now()
+
+        const {
+            maxAttempts = Infinity,
+            maxElapsedTime = Infinity,
+            shouldRetry,
+        } = reconnectPolicy || {}
+
+        // Sets up the next attempt, or returns `false` if we're out of them.
+        const scheduleRetry = (e: CloseEventLike) => {
+            const attempt = retryCount + 1
+
+            const canRetry =
+                (retry === true || (typeof retry === 'number' && retryCount < retry)) &&
+                attempt <= maxAttempts &&
+                (!shouldRetry || shouldRetry(e, attempt))
+
+            const nextDelay = canRetry ? backoff(attempt, reconnectPolicy) : 0
+
+            if (!canRetry || Date.now() - startedAt + nextDelay > maxElapsedTime) {
+                return false
+            }
+
+            reanimateAfter = nextDelay
+
+            retryCount = attempt
+
+            if (dropped) {
+                this.counters.reconnectAttempts++
+
+                this.metrics?.observeReconnectAttempt()
+            }
+
+            this.log(LogLevel.Warn, dropped ? 'Reconnecting' : 'Connecting failed, retrying', {
+                url,
+                attempt,
+                delay: nextDelay,
+                code: e.code,
+            })
+
+            const event: ReconnectingEvent = {
+                attempt,
+                delay: nextDelay,
+                closeEvent: e,
+            }
+
+            this.emit(CafeHubEvent.Reconnecting, event)
+
+            return true
+        }
+
+        const giveUp = (e: CloseEventLike) => {
+            this.log(LogLevel.Error, 'Connecting failed', {
+                url,
+                attempts: retryCount,
+                code: e.code,
+            })
+
+            this.setState(CafeHubState.Disconnected)
+
+            if (retry !== false && retry !== 0) {
+                const event: ReconnectFailedEvent = {
+                    attempts: retryCount,
+                    closeEvent: e,
+                }
+
+                this.emit(CafeHubEvent.ReconnectFailed, event)
+            }
+        }
+
+        this.log(LogLevel.Info, 'Connecting', { url })
+
+        if (dropped && !scheduleRetry(dropped)) {
+            giveUp(dropped)
+
+            throw dropped
+        }
+
         // eslint-disable-next-line no-constant-condition
         while (true) {
             try {
                 if (typeof reanimateAfter === 'number') {
-                    console.info(`Reconnecting in ${reanimateAfter}ms…`)
-
-                    await delay(reanimateAfter, { abortSignal: this.abortController?.signal })
+                    await delay(reanimateAfter, { abortSignal })
                 }
 
                 ws = await connectUtil(url, {
-                    abortSignal: this.abortController?.signal,
-                    onError: (e: Event) => {
-                        this.emit(CafeHubEvent.Error, e)
+                    abortSignal,
+                    onError: (e: unknown) => {
+                        // Unhandled `error` events throw in Node. Socket errors are followed by
+                        // a `close` anyway, so staying quiet is safe.
+                        if (this.listenerCount(CafeHubEvent.Error) > 0) {
+                            this.emit(CafeHubEvent.Error, e)
+                        }
                     },
+                    webSocketFactory: this.webSocketFactory,
                 })
 
                 // We're connected. AbortController is no longer needed.
@@ -144,6 +611,8 @@ export default class CafeHubClient extends EventEmitter {
 
                 this.ws = ws
 
+                this.log(LogLevel.Info, 'Connected', { url })
+
                 this.setState(CafeHubState.Connected)
 
                 this.emit(CafeHubEvent.Connect)
@@ -152,27 +621,24 @@ export default class CafeHubClient extends EventEmitter {
 
                 ws.addEventListener('close', this.onClose)
 
+                this.startHeartbeat()
+
                 break
             } catch (e) {
                 if (e instanceof AbortError) {
+                    this.log(LogLevel.Debug, 'Connecting aborted', { url })
+
                     break
                 }
 
-                if (e instanceof CloseEvent) {
+                if (isCloseEvent(e)) {
                     this.emit(CafeHubEvent.Disconnect, e)
 
-                    if (retry === true || (typeof retry === 'number' && retryCount < retry)) {
-                        reanimateAfter = Math.min(
-                            (reanimateAfter || 0) + ReconnectAfter.Step,
-                            ReconnectAfter.Max
-                        )
-
-                        retryCount++
-
+                    if (scheduleRetry(e)) {
                         continue
                     }
 
-                    this.setState(CafeHubState.Disconnected)
+                    giveUp(e)
                 }
 
                 throw e
@@ -180,30 +646,101 @@ export default class CafeHubClient extends EventEmitter {
         }
     }
 
+    private startHeartbeat() {
+        if (!this.heartbeat) {
+            return
+        }
+
+        const { interval, timeout, probe } = this.heartbeat
+
+        this.lastActivityAt = Date.now()
+
+        this.heartbeatIntervalId = setInterval(() => {
+            const idleFor = Date.now() - this.lastActivityAt
+
+            if (idleFor >= timeout) {
+                const event: ConnectionDeadEvent = {
+                    idleFor,
+                }
+
+                this.log(LogLevel.Warn, 'Connection is dead', {
+                    url: this.url,
+                    idleFor,
+                })
+
+                this.emit(CafeHubEvent.ConnectionDead, event)
+
+                // A dead connection may never report closing, so we don't wait for it.
+                return void this.onClose({
+                    code: 4000,
+                    reason: 'Heartbeat timeout',
+                    wasClean: false,
+                })
+            }
+
+            if (idleFor >= interval && probe) {
+                // Failed probes don't matter, silence does.
+                Promise.resolve()
+                    .then(probe)
+                    .catch(() => void 0)
+            }
+        }, interval)
+    }
+
+    private stopHeartbeat() {
+        if (this.heartbeatIntervalId !== undefined) {
+            clearInterval(this.heartbeatIntervalId)
+
+            this.heartbeatIntervalId = undefined
+        }
+    }
+
     send(data: string) {
         if (!this.ws || this.getState() !== CafeHubState.Connected) {
             throw new SocketNotReadyError()
         }
 
         this.ws.send(data)
+
+        this.counters.framesOut++
+
+        this.metrics?.observeFrameOut()
     }
 
     onData = (msg: RawMessage) => {
+        if (isResponseMessage(msg)) {
+            if (!this.requests[msg.id]) {
+                // We don't have a record of sending a message with this `id`.
+                return void this.dropFrame('Unknown request', { requestId: msg.id })
+            }
+
+            this.requests[msg.id].resolve(msg)
+
+            return void this.emit(CafeHubEvent.ResponseMessage, msg)
+        }
+
         if (!isUpdateMessage(msg)) {
-            return
+            return void this.dropFrame('Not a response or an update', { type: msg.type })
         }
 
+        // Device bookkeeping doesn't depend on us waiting for the message.
+        this.trackDevice(msg)
+
         if (msg.id === 0) {
             if (!isGATTNotifyUpdate(msg)) {
-                return
+                return void this.dropFrame('Unsolicited update', { update: msg.update })
             }
 
-            return void this.emit(CafeHubEvent.CharChange, msg)
+            this.metrics?.observeNotification(msg.results.Char)
+
+            this.emit(CafeHubEvent.CharChange, msg)
+
+            return void this.emitDecodedCharChange(msg)
         }
 
         if (!this.requests[msg.id]) {
             // We don't have a record of sending a message with this `id`.
-            return
+            return void this.dropFrame('Unknown request', { requestId: msg.id })
         }
 
         // *Try* to resolve associated `sendRequest` promise. Possibly a noop, see `resolveIf`.
@@ -212,16 +749,213 @@ export default class CafeHubClient extends EventEmitter {
         this.emit(CafeHubEvent.UpdateMessage, msg)
 
         if (isScanResultUpdate(msg) && msg.results.MAC) {
-            this.emit(CafeHubEvent.DeviceFound, {
-                ...msg.results,
-                connectionState: ConnectionState.Disconnected,
+            this.emit(CafeHubEvent.DeviceFound, this.getDevice(msg.results.MAC))
+        }
+    }
+
+    private dropFrame(reason: string, context: LogContext) {
+        this.counters.framesDropped++
+
+        this.log(LogLevel.Debug, `Dropped frame: ${reason}`, context)
+    }
+
+    private log(level: LogLevel, message: string, context?: LogContext) {
+        try {
+            this.logger?.[level](message, context)
+        } catch (e) {
+            // A broken logger mustn't break the client.
+        }
+    }
+
+    getDiagnostics(): Diagnostics {
+        const now = Date.now()
+
+        const pendingRequests: PendingRequestInfo[] = []
+
+        this.inFlight.forEach(({ request, sentAt }, id) => {
+            const { command, MAC, Char } = getRequestContext(id, request)
+
+            pendingRequests.push({
+                id,
+                command: command as RequestCommand,
+                ...(MAC ? { MAC } : {}),
+                ...(Char ? { Char } : {}),
+                age: now - sentAt,
+            })
+        })
+
+        return {
+            state: this.state,
+            url: this.url,
+            pendingRequests,
+            idleFor: this.ws ? now - this.lastActivityAt : undefined,
+            devices: this.devices.size,
+            subscriptions: this.subscriptions.size,
+            counters: { ...this.counters },
+        }
+    }
+
+    getDevices(): Device[] {
+        return [...this.devices.values()].map((device) => ({ ...device }))
+    }
+
+    getDevice(mac: string): undefined | Device {
+        const device = this.devices.get(mac)
+
+        return device && { ...device }
+    }
+
+    private trackDevice(msg: UpdateMessage) {
+        if (isScanResultUpdate(msg)) {
+            if (msg.results.MAC) {
+                this.scans[msg.id] = (this.scans[msg.id] || new Set()).add(msg.results.MAC)
+
+                return void this.updateDevice(msg.results.MAC, {
+                    Name: msg.results.Name,
+                    UUIDs: msg.results.UUIDs,
+                })
+            }
+
+            // An empty result ends the scan. Whatever it didn't see (and isn't connected) is gone.
+            const seen = this.scans[msg.id] || new Set()
+
+            delete this.scans[msg.id]
+
+            return void this.devices.forEach((device, mac) => {
+                if (!seen.has(mac) && device.connectionState !== ConnectionState.Connected) {
+                    this.devices.delete(mac)
+
+                    this.emit(CafeHubEvent.DeviceLost, { ...device })
+                }
             })
         }
+
+        if (isConnectionStateUpdate(msg)) {
+            this.updateDevice(msg.results.MAC, {
+                connectionState: msg.results.CState,
+                ...(msg.results.UUIDs ? { UUIDs: msg.results.UUIDs } : {}),
+            })
+        }
+    }
+
+    private trackNotification(request: Request) {
+        if (request.command !== RequestCommand.GATTSetNotify) {
+            return
+        }
+
+        const { MAC, Char, Enable } = request.params
+
+        if (Enable) {
+            this.notifications.set(`${MAC}/${Char}`, {
+                MAC,
+                Char,
+            })
+        } else {
+            this.notifications.delete(`${MAC}/${Char}`)
+        }
+    }
+
+    private updateDevice(mac: string, changes: Partial<Omit<Device, 'MAC'>>) {
+        const current: Device = this.devices.get(mac) || {
+            MAC: mac,
+            Name: '',
+            UUIDs: [],
+            connectionState: ConnectionState.Disconnected,
+        }
+
+        const device: Device = {
+            ...current,
+            ...changes,
+        }
+
+        const changed =
+            !this.devices.has(mac) ||
+            device.Name !== current.Name ||
+            device.connectionState !== current.connectionState ||
+            device.UUIDs.join() !== current.UUIDs.join()
+
+        this.devices.set(mac, device)
+
+        if (device.connectionState !== ConnectionState.Connected) {
+            // Notifications don't outlive the connection.
+            this.notifications.forEach((n, key) => {
+                if (n.MAC === mac) {
+                    this.notifications.delete(key)
+                }
+            })
+        }
+
+        if (changed) {
+            this.emit(CafeHubEvent.DeviceUpdate, { ...device })
+        }
+    }
+
+    private emitDecodedCharChange({ results: { MAC, Char, Data } }: GATTNotifyUpdate) {
+        const subscription = this.subscriptions.get(`${MAC}/${Char}`)
+
+        if (
+            (!subscription && this.listenerCount(CafeHubEvent.DecodedCharChange) === 0) ||
+            !isCharAddr(Char)
+        ) {
+            return
+        }
+
+        let change: CharChange
+
+        try {
+            change = {
+                MAC,
+                Char,
+                value: decode(Char, Data),
+            } as CharChange
+        } catch (e) {
+            // Malformed payloads are still available through `CharChange`.
+            return
+        }
+
+        this.emit(CafeHubEvent.DecodedCharChange, change)
+
+        subscription?.listeners.forEach((listener) => void listener(change.value, change))
     }
 
-    constructor() {
+    constructor({
+        webSocketFactory,
+        autoReconnect = true,
+        heartbeat,
+        requestTimeout,
+        scheduler = false,
+        validation = ValidationMode.Lenient,
+        logger,
+        metrics = false,
+    }: ClientOptions = {}) {
         super()
 
+        this.webSocketFactory = webSocketFactory
+
+        this.autoReconnect = autoReconnect
+
+        this.heartbeat = heartbeat
+
+        this.requestTimeout = requestTimeout
+
+        this.validation = validation
+
+        this.logger = logger
+
+        if (metrics) {
+            const { interval, ...options }: MetricsOptions = metrics === true ? {} : metrics
+
+            this.metrics = new MetricsCollector(options)
+
+            this.metricsInterval = interval
+        }
+
+        if (scheduler) {
+            this.scheduler = new RequestScheduler(scheduler === true ? {} : scheduler, {
+                isReady: () => this.state === CafeHubState.Connected && this.reconnects === 0,
+            })
+        }
+
         this.on(CafeHubEvent.Data, this.onData)
     }
 
@@ -231,21 +965,343 @@ export default class CafeHubClient extends EventEmitter {
         return this.lastRequestId
     }
 
-    async sendRequest(request: Request, { timeout, resolveIf }: SendOptions = {}) {
+    uploadProfile(mac: string, profile: Profile, options?: UploadProfileOptions) {
+        return uploadProfile(this, mac, profile, options)
+    }
+
+    readMMR(mac: string, register: MMRRegister | MMRRegisterInfo, options?: SendOptions) {
+        return readMMR(this, mac, register, options)
+    }
+
+    writeMMR(
+        mac: string,
+        register: MMRRegister | MMRRegisterInfo,
+        value: number,
+        options?: SendOptions
+    ) {
+        return writeMMR(this, mac, register, value, options)
+    }
+
+    // Yields the first argument of every `eventName` event. Ends on teardown.
+    events<E extends CafeHubEvent>(
+        eventName: E,
+        { filter, signal }: EventsOptions<CafeHubEventPayload[E]> = {}
+    ) {
+        return eventIterator<CafeHubEventPayload[E]>(this, eventName, {
+            filter,
+            signal,
+            endEvent: eventName === CafeHubEvent.Teardown ? undefined : CafeHubEvent.Teardown,
+        })
+    }
+
+    // Resolves with the next `eventName` event that satisfies `predicate`. Rejects with
+    // an `AbortError` on teardown.
+    waitFor<E extends CafeHubEvent>(
+        eventName: E,
+        predicate?: (value: CafeHubEventPayload[E]) => boolean,
+        options: WaitForOptions = {}
+    ) {
+        return waitForEvent<CafeHubEventPayload[E]>(this, eventName, predicate, {
+            ...options,
+            abortEvent: eventName === CafeHubEvent.Teardown ? undefined : CafeHubEvent.Teardown,
+        })
+    }
+
+    // Routes decoded notifications of `char` on `mac` to `listener`. Notifications get enabled
+    // for the first subscriber and disabled once the last one leaves.
+    async subscribe<C extends CharAddr>(
+        mac: string,
+        char: C,
+        listener: CharListener<C>,
+        options: SendOptions = {}
+    ): Promise<Unsubscribe> {
+        const key = `${mac}/${char}`
+
+        await this.unsubscribing.get(key)
+
+        let subscription = this.subscriptions.get(key)
+
+        if (!subscription) {
+            subscription = {
+                listeners: new Set(),
+                owned: false,
+            }
+
+            this.subscriptions.set(key, subscription)
+        }
+
+        const fn = listener as CharListener
+
+        subscription.listeners.add(fn)
+
+        let unsubscribed = false
+
+        const unsubscribe = async () => {
+            if (unsubscribed) {
+                return
+            }
+
+            unsubscribed = true
+
+            await this.unsubscribe(key, fn)
+        }
+
+        try {
+            // Also re-enables notifications the hub dropped, e.g. after a disconnect.
+            if (!this.notifications.has(key)) {
+                await this.enableNotifications(mac, char, subscription, options)
+            }
+        } catch (e) {
+            await unsubscribe()
+
+            throw e
+        }
+
+        return unsubscribe
+    }
+
+    private enableNotifications(
+        mac: string,
+        char: CharAddr,
+        subscription: Subscription,
+        options: SendOptions
+    ) {
+        if (!subscription.enabling) {
+            const enabling = this.sendRequest(
+                {
+                    command: RequestCommand.GATTSetNotify,
+                    params: {
+                        MAC: mac,
+                        Char: char,
+                        Enable: true,
+                    },
+                },
+                options
+            ).then(() => {
+                subscription.owned = true
+            })
+
+            const settle = () => {
+                if (subscription.enabling === enabling) {
+                    subscription.enabling = undefined
+                }
+            }
+
+            enabling.then(settle, settle)
+
+            subscription.enabling = enabling
+        }
+
+        return subscription.enabling
+    }
+
+    private async unsubscribe(key: string, listener: CharListener) {
+        const subscription = this.subscriptions.get(key)
+
+        if (!subscription?.listeners.delete(listener) || subscription.listeners.size) {
+            return
+        }
+
+        this.subscriptions.delete(key)
+
+        const unsubscribing = this.disableNotifications(key, subscription)
+
+        const settle = () => {
+            if (this.unsubscribing.get(key) === settled) {
+                this.unsubscribing.delete(key)
+            }
+        }
+
+        const settled = unsubscribing.then(settle, settle)
+
+        this.unsubscribing.set(key, settled)
+
+        await unsubscribing
+    }
+
+    private async disableNotifications(key: string, subscription: Subscription) {
+        // Wait for a pending enable, or it would leave notifications on with nobody listening.
+        await subscription.enabling?.catch(() => void 0)
+
+        const notification = this.notifications.get(key)
+
+        if (!subscription.owned || !notification) {
+            return
+        }
+
+        await this.sendRequest({
+            command: RequestCommand.GATTSetNotify,
+            params: {
+                ...notification,
+                Enable: false,
+            },
+        })
+    }
+
+    // Iterate over the result for devices as they show up, or await its `devices` for the
+    // full list once the scan is over.
+    scan(options?: ScanOptions) {
+        return scan(this, options)
+    }
+
+    // Resolves with the first device advertising the DE1 service, or `undefined` if the scan
+    // ends without one.
+    async findDE1(options: Omit<ScanOptions, 'serviceUUIDs'> = {}) {
+        const devices = this.scan({
+            ...options,
+            serviceUUIDs: [De1ServiceUUID],
+        })[Symbol.asyncIterator]()
+
+        const { value, done } = await devices.next()
+
+        await devices.return?.()
+
+        return done ? undefined : value
+    }
+
+    // Resolves with the outcome, which isn't necessarily `ConnectionState.Connected`.
+    gattConnect(mac: string, options: SendOptions = {}) {
+        return this.sendRequest(
+            {
+                command: RequestCommand.GATTConnect,
+                params: {
+                    MAC: mac,
+                },
+            },
+            {
+                ...options,
+                resolveIf: isConnectionOutcome,
+            }
+        )
+    }
+
+    gattDisconnect(mac: string, options: SendOptions = {}) {
+        return this.sendRequest(
+            {
+                command: RequestCommand.GATTDisconnect,
+                params: {
+                    MAC: mac,
+                },
+            },
+            options
+        )
+    }
+
+    async gattRead(mac: string, char: string, options: SendOptions = {}): Promise<GATTReadReply> {
+        const msg = await this.sendRequest(
+            {
+                command: RequestCommand.GATTRead,
+                params: {
+                    MAC: mac,
+                    Char: char,
+                },
+            },
+            options
+        )
+
+        const data = (msg.results as undefined | { Data?: unknown })?.Data
+
+        if (typeof data !== 'string') {
+            throw new CodecError(`No data received for ${char}`)
+        }
+
+        return {
+            ...msg,
+            data: fromBase64(data),
+        }
+    }
+
+    gattWrite(
+        mac: string,
+        char: string,
+        data: Uint8Array | ArrayBuffer,
+        { withResponse = true, ...options }: GATTWriteOptions = {}
+    ) {
+        return this.sendRequest(
+            {
+                command: RequestCommand.GATTWrite,
+                params: {
+                    MAC: mac,
+                    Char: char,
+                    Data: toBase64(data),
+                    RR: withResponse,
+                },
+            },
+            options
+        )
+    }
+
+    gattSetNotify(mac: string, char: string, enable: boolean, options: SendOptions = {}) {
+        return this.sendRequest(
+            {
+                command: RequestCommand.GATTSetNotify,
+                params: {
+                    MAC: mac,
+                    Char: char,
+                    Enable: enable,
+                },
+            },
+            options
+        )
+    }
+
+    // The reply type follows `request.command`, see `RequestReplies`.
+    async sendRequest<R extends Request>(
+        request: R,
+        options: SendOptions = {}
+    ): Promise<ReplyFor<R>> {
+        if (!this.scheduler) {
+            return (await this.dispatchRequest(request, options)) as ReplyFor<R>
+        }
+
+        if (this.state === CafeHubState.Disconnected) {
+            throw new SocketNotReadyError()
+        }
+
+        const { MAC } = request.params as { MAC?: unknown }
+
+        return (await this.scheduler.schedule(
+            typeof MAC === 'string' ? MAC : undefined,
+            options.priority || RequestPriority.Normal,
+            () => this.dispatchRequest(request, options)
+        )) as ReplyFor<R>
+    }
+
+    private async dispatchRequest(
+        request: Request,
+        { timeout = this.requestTimeout, resolveIf, signal }: SendOptions = {}
+    ): Promise<ReplyMessage> {
         const payload: RequestMessage = {
             ...request,
             id: this.nextRequestId(),
             type: MessageType.Request,
         }
 
-        const { resolve, reject, promise } = await defer<UpdateMessage>()
+        const { resolve, reject, promise } = await defer<ReplyMessage>()
+
+        // Nobody awaits it if sending fails, and rejecting it then mustn't go unhandled.
+        promise.catch(() => void 0)
 
         const settlers: Defer = {
-            resolve(msg: UpdateMessage) {
+            resolve(msg: ReplyMessage) {
                 if (msg.id !== payload.id) {
                     return
                 }
 
+                const error = getReplyError(msg)
+
+                if (error) {
+                    // Server-reported failures settle the request regardless of `resolveIf`.
+                    return void reject(
+                        new CafeHubRequestError({
+                            eid: error.eid,
+                            errmsg: error.errmsg,
+                            request,
+                            requestId: payload.id,
+                        })
+                    )
+                }
+
                 if (typeof resolveIf === 'function') {
                     if (resolveIf(msg)) {
                         resolve(msg)
@@ -263,27 +1319,104 @@ export default class CafeHubClient extends EventEmitter {
             [payload.id]: settlers,
         })
 
+        const context = getRequestContext(payload.id, request)
+
+        const sentAt = Date.now()
+
+        // Cancels the timeout once the request settles.
+        const timer = new AbortController()
+
+        function onAbort() {
+            reject(new AbortError())
+        }
+
         try {
+            if (signal?.aborted) {
+                throw new AbortError()
+            }
+
+            signal?.addEventListener('abort', onAbort)
+
             // If the client isn't ready this will throw.
             this.send(JSON.stringify(payload))
 
-            if (!timeout) {
-                return await promise
-            } else {
-                return await Promise.race([
-                    promise,
-                    delay(Math.max(0, timeout)).then(() => {
-                        throw new TimeoutError()
-                    }),
-                ])
-            }
+            this.counters.requests++
+
+            this.inFlight.set(payload.id, {
+                request,
+                sentAt,
+            })
+
+            this.log(LogLevel.Debug, 'Request sent', context)
+
+            const reply = !timeout
+                ? await promise
+                : await Promise.race([
+                      promise,
+                      delay(Math.max(0, timeout), { abortSignal: timer.signal }).then((): never => {
+                          throw new TimeoutError()
+                      }),
+                  ])
+
+            this.trackNotification(request)
+
+            const duration = Date.now() - sentAt
+
+            this.metrics?.observeRequest(request.command, RequestOutcome.Success, duration)
+
+            this.log(LogLevel.Debug, 'Request settled', {
+                ...context,
+                duration,
+            })
+
+            return reply
         } catch (e) {
             // Proactively reject the outstanding settler.
             settlers.reject(e)
 
+            const duration = Date.now() - sentAt
+
+            if (e instanceof TimeoutError) {
+                this.counters.timedOutRequests++
+
+                this.metrics?.observeRequest(request.command, RequestOutcome.Timeout)
+
+                this.log(LogLevel.Warn, 'Request timed out', {
+                    ...context,
+                    timeout,
+                    duration,
+                })
+            } else if (e instanceof AbortError) {
+                this.log(LogLevel.Debug, 'Request aborted', {
+                    ...context,
+                    duration,
+                })
+            } else {
+                this.counters.failedRequests++
+
+                this.metrics?.observeRequest(
+                    request.command,
+                    RequestOutcome.Failure,
+                    // Only failures the hub reported made the round trip.
+                    e instanceof CafeHubRequestError ? duration : undefined
+                )
+
+                this.log(LogLevel.Warn, 'Request failed', {
+                    ...context,
+                    duration,
+                    error: e,
+                })
+            }
+
             throw e
         } finally {
+            timer.abort()
+
+            signal?.removeEventListener('abort', onAbort)
+
             delete this.requests[payload.id]
+
+            this.inFlight.delete(payload.id)
         }
     }
 
@@ -291,14 +1424,42 @@ export default class CafeHubClient extends EventEmitter {
 
     on(eventName: CafeHubEvent.Connect, listener: () => void): this
 
+    on(eventName: CafeHubEvent.ConnectionDead, listener: (event: ConnectionDeadEvent) => void): this
+
     on(eventName: CafeHubEvent.Data, listener: (data: Record<string, unknown>) => void): this
 
+    on(eventName: CafeHubEvent.DecodedCharChange, listener: (change: CharChange) => void): this
+
     on(eventName: CafeHubEvent.DeviceFound, listener: (device: Device) => void): this
 
+    on(eventName: CafeHubEvent.DeviceLost, listener: (device: Device) => void): this
+
+    on(eventName: CafeHubEvent.DeviceUpdate, listener: (device: Device) => void): this
+
     on(eventName: CafeHubEvent.Disconnect, listener: () => void): this
 
     on(eventName: CafeHubEvent.Error, listener: (error: Error) => void): this
 
+    on(eventName: CafeHubEvent.Metrics, listener: (metrics: MetricsSnapshot) => void): this
+
+    on(eventName: CafeHubEvent.ProtocolError, listener: (event: ProtocolErrorEvent) => void): this
+
+    on(
+        eventName: CafeHubEvent.ReconnectFailed,
+        listener: (event: ReconnectFailedEvent) => void
+    ): this
+
+    on(eventName: CafeHubEvent.Reconnecting, listener: (event: ReconnectingEvent) => void): this
+
+    on(eventName: CafeHubEvent.ResponseMessage, listener: (message: ResponseMessage) => void): this
+
+    on(
+        eventName: CafeHubEvent.SessionRestoreFailed,
+        listener: (event: SessionRestoreFailedEvent) => void
+    ): this
+
+    on(eventName: CafeHubEvent.SessionRestored, listener: (session: Session) => void): this
+
     on(eventName: CafeHubEvent.StateChange, listener: (state: CafeHubState) => void): this
 
     on(eventName: CafeHubEvent.Teardown, listener: () => void): this
@@ -313,14 +1474,48 @@ export default class CafeHubClient extends EventEmitter {
 
     once(eventName: CafeHubEvent.Connect, listener: () => void): this
 
+    once(
+        eventName: CafeHubEvent.ConnectionDead,
+        listener: (event: ConnectionDeadEvent) => void
+    ): this
+
     once(eventName: CafeHubEvent.Data, listener: (data: Record<string, unknown>) => void): this
 
+    once(eventName: CafeHubEvent.DecodedCharChange, listener: (change: CharChange) => void): this
+
     once(eventName: CafeHubEvent.DeviceFound, listener: (device: Device) => void): this
 
+    once(eventName: CafeHubEvent.DeviceLost, listener: (device: Device) => void): this
+
+    once(eventName: CafeHubEvent.DeviceUpdate, listener: (device: Device) => void): this
+
     once(eventName: CafeHubEvent.Disconnect, listener: () => void): this
 
     once(eventName: CafeHubEvent.Error, listener: (error: Error) => void): this
 
+    once(eventName: CafeHubEvent.Metrics, listener: (metrics: MetricsSnapshot) => void): this
+
+    once(eventName: CafeHubEvent.ProtocolError, listener: (event: ProtocolErrorEvent) => void): this
+
+    once(
+        eventName: CafeHubEvent.ReconnectFailed,
+        listener: (event: ReconnectFailedEvent) => void
+    ): this
+
+    once(eventName: CafeHubEvent.Reconnecting, listener: (event: ReconnectingEvent) => void): this
+
+    once(
+        eventName: CafeHubEvent.ResponseMessage,
+        listener: (message: ResponseMessage) => void
+    ): this
+
+    once(
+        eventName: CafeHubEvent.SessionRestoreFailed,
+        listener: (event: SessionRestoreFailedEvent) => void
+    ): this
+
+    once(eventName: CafeHubEvent.SessionRestored, listener: (session: Session) => void): this
+
     once(eventName: CafeHubEvent.StateChange, listener: (state: CafeHubState) => void): this
 
     once(eventName: CafeHubEvent.Teardown, listener: () => void): this
@@ -335,14 +1530,45 @@ export default class CafeHubClient extends EventEmitter {
 
     off(eventName: CafeHubEvent.Connect, listener: () => void): this
 
+    off(
+        eventName: CafeHubEvent.ConnectionDead,
+        listener: (event: ConnectionDeadEvent) => void
+    ): this
+
     off(eventName: CafeHubEvent.Data, listener: (data: Record<string, unknown>) => void): this
 
+    off(eventName: CafeHubEvent.DecodedCharChange, listener: (change: CharChange) => void): this
+
     off(eventName: CafeHubEvent.DeviceFound, listener: (device: Device) => void): this
 
+    off(eventName: CafeHubEvent.DeviceLost, listener: (device: Device) => void): this
+
+    off(eventName: CafeHubEvent.DeviceUpdate, listener: (device: Device) => void): this
+
     off(eventName: CafeHubEvent.Disconnect, listener: () => void): this
 
     off(eventName: CafeHubEvent.Error, listener: (error: Error) => void): this
 
+    off(eventName: CafeHubEvent.Metrics, listener: (metrics: MetricsSnapshot) => void): this
+
+    off(eventName: CafeHubEvent.ProtocolError, listener: (event: ProtocolErrorEvent) => void): this
+
+    off(
+        eventName: CafeHubEvent.ReconnectFailed,
+        listener: (event: ReconnectFailedEvent) => void
+    ): this
+
+    off(eventName: CafeHubEvent.Reconnecting, listener: (event: ReconnectingEvent) => void): this
+
+    off(eventName: CafeHubEvent.ResponseMessage, listener: (message: ResponseMessage) => void): this
+
+    off(
+        eventName: CafeHubEvent.SessionRestoreFailed,
+        listener: (event: SessionRestoreFailedEvent) => void
+    ): this
+
+    off(eventName: CafeHubEvent.SessionRestored, listener: (session: Session) => void): this
+
     off(eventName: CafeHubEvent.StateChange, listener: (state: CafeHubState) => void): this
 
     off(eventName: CafeHubEvent.Teardown, listener: () => void): this
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { CharAddr, RequestCommand, RequestOutcome } from '../types'
+import MetricsCollector from './MetricsCollector'
+
+describe('MetricsCollector', () => {
+    let now: number
+
+    let metrics: MetricsCollector
+
+    beforeEach(() => {
+        now = 1000
+
+        metrics = new MetricsCollector({
+            buckets: [50, 10, 100],
+            rateWindow: 1000,
+            now: () => now,
+        })
+    })
+
+    it('counts durations into cumulative buckets', () => {
+        for (const duration of [5, 10, 30, 100, 250]) {
+            metrics.observeRequest(RequestCommand.GATTRead, RequestOutcome.Success, duration)
+        }
+
+        expect(metrics.getSnapshot().requests[RequestCommand.GATTRead]?.duration).toEqual({
+            buckets: [
+                {
+                    le: 10,
+                    count: 2,
+                },
+                {
+                    le: 50,
+                    count: 3,
+                },
+                {
+                    le: 100,
+                    count: 4,
+                },
+            ],
+            // The 250 only shows here, in the sum and in the count.
+            sum: 395,
+            count: 5,
+        })
+    })
+
+    it('counts outcomes, with or without a duration', () => {
+        metrics.observeRequest(RequestCommand.GATTWrite, RequestOutcome.Success, 20)
+
+        metrics.observeRequest(RequestCommand.GATTWrite, RequestOutcome.Failure, 40)
+
+        metrics.observeRequest(RequestCommand.GATTWrite, RequestOutcome.Timeout)
+
+        expect(metrics.getSnapshot().requests[RequestCommand.GATTWrite]).toMatchObject({
+            duration: {
+                sum: 60,
+                count: 2,
+            },
+            outcomes: {
+                [RequestOutcome.Success]: 1,
+                [RequestOutcome.Failure]: 1,
+                [RequestOutcome.Timeout]: 1,
+            },
+        })
+    })
+
+    it('averages notification rates over the window', () => {
+        metrics.observeNotification(CharAddr.ShotSample)
+
+        now += 400
+
+        metrics.observeNotification(CharAddr.ShotSample)
+
+        metrics.observeNotification(CharAddr.ShotSample)
+
+        expect(metrics.getSnapshot().notifications[CharAddr.ShotSample]).toEqual({
+            count: 3,
+            rate: 3,
+        })
+
+        // The first one falls out of the window.
+        now += 700
+
+        expect(metrics.getSnapshot().notifications[CharAddr.ShotSample]).toEqual({
+            count: 3,
+            rate: 2,
+        })
+
+        now += 1000
+
+        expect(metrics.getSnapshot().notifications[CharAddr.ShotSample]).toEqual({
+            count: 3,
+            rate: 0,
+        })
+    })
+
+    it('starts over on reset', () => {
+        metrics.observeRequest(RequestCommand.GATTRead, RequestOutcome.Success, 5)
+
+        metrics.observeNotification(CharAddr.StateInfo)
+
+        metrics.observeFrameIn()
+
+        metrics.observeFrameOut()
+
+        metrics.observeReconnectAttempt()
+
+        now += 500
+
+        metrics.reset()
+
+        expect(metrics.getSnapshot()).toEqual({
+            at: 1500,
+            since: 1500,
+            requests: {},
+            notifications: {},
+            framesIn: 0,
+            framesOut: 0,
+            reconnectAttempts: 0,
+        })
+    })
+})
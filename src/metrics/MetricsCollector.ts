@@ -0,0 +1,215 @@
+import {
+    HistogramSnapshot,
+    MetricsCollectorOptions,
+    MetricsSnapshot,
+    NotificationMetrics,
+    RequestCommand,
+    RequestMetrics,
+    RequestOutcome,
+} from '../types'
+
+const DefaultBuckets = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+
+const DefaultRateWindow = 5000
+
+interface Histogram {
+    // Per bucket, not cumulative. Values past the last bucket only count towards `count`.
+    counts: number[]
+    sum: number
+    count: number
+}
+
+function getHistogramSnapshot({ counts, sum, count }: Histogram, bounds: number[]) {
+    let cumulative = 0
+
+    const snapshot: HistogramSnapshot = {
+        buckets: bounds.map((le, i) => {
+            cumulative += counts[i]
+
+            return {
+                le,
+                count: cumulative,
+            }
+        }),
+        sum,
+        count,
+    }
+
+    return snapshot
+}
+
+interface Requests {
+    duration: Histogram
+    outcomes: Record<RequestOutcome, number>
+}
+
+interface Notifications {
+    count: number
+    // Arrival times within the rate window.
+    recent: number[]
+}
+
+// Counts what goes through a `CafeHubClient`. The client feeds it when created with the
+// `metrics` option, see `CafeHubClient#getMetrics`.
+export default class MetricsCollector {
+    private readonly buckets: number[]
+
+    private readonly rateWindow: number
+
+    private readonly now: () => number
+
+    private since: number
+
+    private requests = new Map<RequestCommand, Requests>()
+
+    private notifications = new Map<string, Notifications>()
+
+    private framesIn = 0
+
+    private framesOut = 0
+
+    private reconnectAttempts = 0
+
+    constructor({
+        buckets = DefaultBuckets,
+        rateWindow = DefaultRateWindow,
+        now = Date.now,
+    }: MetricsCollectorOptions = {}) {
+        this.buckets = buckets.slice().sort((a, b) => a - b)
+
+        this.rateWindow = rateWindow
+
+        this.now = now
+
+        this.since = now()
+    }
+
+    // Pass `duration` for requests that got a reply. It goes into the histogram.
+    observeRequest(command: RequestCommand, outcome: RequestOutcome, duration?: number) {
+        let requests = this.requests.get(command)
+
+        if (!requests) {
+            requests = {
+                duration: {
+                    counts: this.buckets.map(() => 0),
+                    sum: 0,
+                    count: 0,
+                },
+                outcomes: {
+                    [RequestOutcome.Success]: 0,
+                    [RequestOutcome.Failure]: 0,
+                    [RequestOutcome.Timeout]: 0,
+                },
+            }
+
+            this.requests.set(command, requests)
+        }
+
+        requests.outcomes[outcome]++
+
+        if (duration !== undefined) {
+            const { duration: histogram } = requests
+
+            const index = this.buckets.findIndex((le) => duration <= le)
+
+            if (index !== -1) {
+                histogram.counts[index]++
+            }
+
+            histogram.sum += duration
+
+            histogram.count++
+        }
+    }
+
+    observeNotification(char: string) {
+        let notifications = this.notifications.get(char)
+
+        if (!notifications) {
+            notifications = {
+                count: 0,
+                recent: [],
+            }
+
+            this.notifications.set(char, notifications)
+        }
+
+        notifications.count++
+
+        notifications.recent.push(this.now())
+
+        this.trim(notifications)
+    }
+
+    observeFrameIn() {
+        this.framesIn++
+    }
+
+    observeFrameOut() {
+        this.framesOut++
+    }
+
+    observeReconnectAttempt() {
+        this.reconnectAttempts++
+    }
+
+    getSnapshot(): MetricsSnapshot {
+        const requests: MetricsSnapshot['requests'] = {}
+
+        this.requests.forEach(({ duration, outcomes }, command) => {
+            const metrics: RequestMetrics = {
+                duration: getHistogramSnapshot(duration, this.buckets),
+                outcomes: {
+                    ...outcomes,
+                },
+            }
+
+            requests[command] = metrics
+        })
+
+        const notifications: MetricsSnapshot['notifications'] = {}
+
+        this.notifications.forEach((n, char) => {
+            this.trim(n)
+
+            const metrics: NotificationMetrics = {
+                count: n.count,
+                rate: (n.recent.length * 1000) / this.rateWindow,
+            }
+
+            notifications[char] = metrics
+        })
+
+        return {
+            at: this.now(),
+            since: this.since,
+            requests,
+            notifications,
+            framesIn: this.framesIn,
+            framesOut: this.framesOut,
+            reconnectAttempts: this.reconnectAttempts,
+        }
+    }
+
+    reset() {
+        this.since = this.now()
+
+        this.requests.clear()
+
+        this.notifications.clear()
+
+        this.framesIn = 0
+
+        this.framesOut = 0
+
+        this.reconnectAttempts = 0
+    }
+
+    private trim(notifications: Notifications) {
+        const after = this.now() - this.rateWindow
+
+        const index = notifications.recent.findIndex((t) => t > after)
+
+        notifications.recent.splice(0, index === -1 ? notifications.recent.length : index)
+    }
+}
@@ -0,0 +1,2 @@
+export { default as MetricsCollector } from './MetricsCollector'
+export { toPrometheusText } from './prometheus'
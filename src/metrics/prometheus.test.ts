@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { CharAddr, MetricsSnapshot, RequestCommand, RequestOutcome } from '../types'
+import metricsProm from './fixtures/metrics.prom?raw'
+import MetricsCollector from './MetricsCollector'
+import { toPrometheusText } from './prometheus'
+
+function getSnapshot() {
+    let now = 0
+
+    const metrics = new MetricsCollector({
+        buckets: [10, 100],
+        rateWindow: 1000,
+        now: () => now,
+    })
+
+    metrics.observeRequest(RequestCommand.GATTRead, RequestOutcome.Success, 8)
+
+    metrics.observeRequest(RequestCommand.GATTRead, RequestOutcome.Success, 40)
+
+    metrics.observeRequest(RequestCommand.GATTRead, RequestOutcome.Timeout)
+
+    metrics.observeRequest(RequestCommand.GATTWrite, RequestOutcome.Failure, 250)
+
+    metrics.observeNotification(CharAddr.ShotSample)
+
+    metrics.observeNotification(CharAddr.ShotSample)
+
+    metrics.observeNotification('0000a0ff-0000-1000-8000-00805f9b34fb')
+
+    metrics.observeFrameIn()
+
+    metrics.observeFrameIn()
+
+    metrics.observeFrameOut()
+
+    metrics.observeReconnectAttempt()
+
+    now = 500
+
+    return metrics.getSnapshot()
+}
+
+describe('toPrometheusText', () => {
+    it('matches the golden file', () => {
+        expect(
+            toPrometheusText(getSnapshot(), {
+                labels: {
+                    hub: 'kitchen',
+                },
+            })
+        ).toBe(metricsProm)
+    })
+
+    it('escapes label values', () => {
+        const snapshot: MetricsSnapshot = {
+            ...getSnapshot(),
+            requests: {},
+            notifications: {},
+        }
+
+        expect(
+            toPrometheusText(snapshot, {
+                prefix: 'de1',
+                labels: {
+                    hub: 'a "quoted"\\path\nname',
+                },
+            })
+        ).toContain('de1_frames_total{hub="a \\"quoted\\"\\\\path\\nname",direction="in"} 2\n')
+    })
+})
@@ -0,0 +1,127 @@
+import { CharAddr, MetricsSnapshot, PrometheusOptions, RequestOutcome } from '../types'
+
+type Labels = Record<string, string>
+
+function escape(value: string) {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: Labels) {
+    const keys = Object.keys(labels)
+
+    if (!keys.length) {
+        return ''
+    }
+
+    return `{${keys.map((key) => `${key}="${escape(labels[key])}"`).join(',')}}`
+}
+
+function formatValue(value: number) {
+    if (value === Infinity) {
+        return '+Inf'
+    }
+
+    if (value === -Infinity) {
+        return '-Inf'
+    }
+
+    return Number.isNaN(value) ? 'NaN' : String(value)
+}
+
+function getCharName(char: string) {
+    return Object.keys(CharAddr).find((key) => CharAddr[key as keyof typeof CharAddr] === char)
+}
+
+// Renders a metrics snapshot in the Prometheus text exposition format. Durations are
+// converted to seconds, as Prometheus expects.
+export function toPrometheusText(
+    { requests, notifications, framesIn, framesOut, reconnectAttempts }: MetricsSnapshot,
+    { prefix = 'cafehub', labels = {} }: PrometheusOptions = {}
+) {
+    const lines: string[] = []
+
+    function family(name: string, type: string, help: string) {
+        lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`)
+    }
+
+    function sample(name: string, sampleLabels: Labels, value: number) {
+        lines.push(
+            `${prefix}_${name}${formatLabels({
+                ...labels,
+                ...sampleLabels,
+            })} ${formatValue(value)}`
+        )
+    }
+
+    const commands = Object.keys(requests) as (keyof MetricsSnapshot['requests'])[]
+
+    family(
+        'request_duration_seconds',
+        'histogram',
+        'Round-trip time of hub requests that got a reply.'
+    )
+
+    commands.forEach((command) => {
+        const { duration } = requests[command] || {}
+
+        if (!duration) {
+            return
+        }
+
+        duration.buckets.forEach(({ le, count }) => {
+            sample('request_duration_seconds_bucket', { command, le: String(le / 1000) }, count)
+        })
+
+        sample('request_duration_seconds_bucket', { command, le: '+Inf' }, duration.count)
+
+        sample('request_duration_seconds_sum', { command }, duration.sum / 1000)
+
+        sample('request_duration_seconds_count', { command }, duration.count)
+    })
+
+    family('requests_total', 'counter', 'Hub requests by command and outcome.')
+
+    commands.forEach((command) => {
+        const { outcomes } = requests[command] || {}
+
+        if (!outcomes) {
+            return
+        }
+
+        Object.keys(outcomes).forEach((outcome) => {
+            sample('requests_total', { command, outcome }, outcomes[outcome as RequestOutcome])
+        })
+    })
+
+    family('notifications_total', 'counter', 'GATT notifications by characteristic.')
+
+    Object.keys(notifications).forEach((char) => {
+        const name = getCharName(char)
+
+        sample('notifications_total', name ? { char, name } : { char }, notifications[char].count)
+    })
+
+    family(
+        'notification_rate',
+        'gauge',
+        'GATT notifications per second by characteristic, recently.'
+    )
+
+    Object.keys(notifications).forEach((char) => {
+        const name = getCharName(char)
+
+        sample('notification_rate', name ? { char, name } : { char }, notifications[char].rate)
+    })
+
+    family('frames_total', 'counter', 'WebSocket frames by direction.')
+
+    sample('frames_total', { direction: 'in' }, framesIn)
+
+    sample('frames_total', { direction: 'out' }, framesOut)
+
+    family('reconnect_attempts_total', 'counter', 'Attempts to reconnect to the hub.')
+
+    sample('reconnect_attempts_total', {}, reconnectAttempts)
+
+    return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import CafeHubClient from '../index'
+import TimeoutError from '../errors/TimeoutError'
+import MockCafeHub from '../testing/MockCafeHub'
+import MockDe1 from '../testing/MockDe1'
+import { MockDevice } from '../testing/types'
+import { MMRRegister } from '../types'
+import { encodeRegister, MMRRegisters } from './registers'
+
+const Url = 'ws://hub.local:8765'
+
+describe('MMR', () => {
+    let hub: MockCafeHub
+
+    let de1: MockDe1
+
+    let client: CafeHubClient
+
+    beforeEach(async () => {
+        hub = new MockCafeHub()
+
+        de1 = new MockDe1()
+
+        hub.addDevice(de1)
+
+        client = new CafeHubClient({
+            webSocketFactory: hub.webSocketFactory,
+        })
+
+        await client.connect(Url)
+
+        await client.gattConnect(de1.mac)
+    })
+
+    afterEach(() => {
+        client.teardown()
+    })
+
+    it('reads registers', async () => {
+        const { address } = MMRRegisters[MMRRegister.SerialNumber]
+
+        de1.poke(address, new Uint8Array([0x39, 0x30, 0, 0]))
+
+        expect(await client.readMMR(de1.mac, MMRRegister.SerialNumber)).toBe(12345)
+    })
+
+    it('writes registers', async () => {
+        const info = MMRRegisters[MMRRegister.SteamFlow]
+
+        await client.writeMMR(de1.mac, MMRRegister.SteamFlow, 1.5)
+
+        expect(de1.peek(info.address, info.length)).toEqual(encodeRegister(info, 1.5))
+
+        expect(await client.readMMR(de1.mac, MMRRegister.SteamFlow)).toBe(1.5)
+    })
+
+    it('reads different registers at the same time', async () => {
+        await client.writeMMR(de1.mac, MMRRegister.FanThreshold, 45)
+
+        await client.writeMMR(de1.mac, MMRRegister.HeaterVoltage, 230)
+
+        expect(
+            await Promise.all([
+                client.readMMR(de1.mac, MMRRegister.FanThreshold),
+                client.readMMR(de1.mac, MMRRegister.HeaterVoltage),
+            ])
+        ).toEqual([45, 230])
+    })
+
+    it('reads the same register in turns', async () => {
+        await client.writeMMR(de1.mac, MMRRegister.FanThreshold, 45)
+
+        expect(
+            await Promise.all([
+                client.readMMR(de1.mac, MMRRegister.FanThreshold),
+                client.readMMR(de1.mac, MMRRegister.FanThreshold),
+            ])
+        ).toEqual([45, 45])
+    })
+
+    it('times out once for the write and the reply together', async () => {
+        // Acknowledges writes but never reports any memory.
+        const mute: MockDevice = {
+            mac: 'D9:B2:48:00:00:02',
+            name: 'DE1',
+            uuids: de1.uuids,
+            read: (char) => de1.read(char),
+            write: () => void 0,
+        }
+
+        hub.addDevice(mute)
+
+        await client.gattConnect(mute.mac)
+
+        hub.latency = 100
+
+        const startedAt = Date.now()
+
+        await expect(
+            client.readMMR(mute.mac, MMRRegister.SerialNumber, {
+                timeout: 200,
+            })
+        ).rejects.toBeInstanceOf(TimeoutError)
+
+        // Subscribing takes a round trip of its own, the timeout starts after it. Waiting the
+        // full timeout for the reply, after the write, would take 400ms.
+        expect(Date.now() - startedAt).toBeLessThan(350)
+    })
+})
@@ -0,0 +1,3 @@
+export { default as readMMR } from './read'
+export { decodeRegister, encodeRegister, getRegisterInfo, MMRRegisters } from './registers'
+export { default as writeMMR } from './write'
@@ -0,0 +1,108 @@
+import type CafeHubClient from '../index'
+import { encode } from '../codecs/index'
+import TimeoutError from '../errors/TimeoutError'
+import { CharAddr, MMRPayload, MMRRegister, MMRRegisterInfo, SendOptions } from '../types'
+import defer from '../utils/defer'
+import delay from '../utils/delay'
+import { decodeRegister, getRegisterInfo } from './registers'
+
+const ReplyTimeout = 5000
+
+// Replies are told apart by address only. Reads of the same address on the same device have
+// to take turns.
+const queues = new WeakMap<CafeHubClient, Map<string, Promise<void>>>()
+
+function exclusively<T>(client: CafeHubClient, key: string, task: () => Promise<T>) {
+    let queue = queues.get(client)
+
+    if (!queue) {
+        queue = new Map()
+
+        queues.set(client, queue)
+    }
+
+    const run = (queue.get(key) || Promise.resolve()).then(task)
+
+    const tail = run.then(
+        () => undefined,
+        () => undefined
+    )
+
+    queue.set(key, tail)
+
+    void tail.then(() => {
+        if (queue?.get(key) === tail) {
+            queue.delete(key)
+        }
+    })
+
+    return run
+}
+
+// Asks the machine for a register and waits for the matching `ReadFromMMR` notification.
+export default async function readMMR(
+    client: CafeHubClient,
+    mac: string,
+    register: MMRRegister | MMRRegisterInfo,
+    { timeout = ReplyTimeout, ...options }: SendOptions = {}
+) {
+    const info = getRegisterInfo(register)
+
+    return exclusively(client, `${mac}/${info.address}`, async () => {
+        const { resolve, promise } = await defer<MMRPayload>()
+
+        const unsubscribe = await client.subscribe(
+            mac,
+            CharAddr.ReadFromMMR,
+            (value) => {
+                if (value.address === info.address) {
+                    resolve(value)
+                }
+            },
+            options
+        )
+
+        // Cancels the timeout once the reply is in.
+        const timer = new AbortController()
+
+        // The write and the reply share the one timeout.
+        const deadline = Date.now() + timeout
+
+        try {
+            await client.gattWrite(
+                mac,
+                CharAddr.ReadFromMMR,
+                encode(CharAddr.ReadFromMMR, {
+                    // Number of 32-bit words to read, minus one.
+                    length: info.length / 4 - 1,
+                    address: info.address,
+                    data: new Uint8Array(0),
+                }),
+                {
+                    ...options,
+                    timeout,
+                }
+            )
+
+            // Whatever the write left of it.
+            const wait = Math.max(0, deadline - Date.now())
+
+            const { data } = !timeout
+                ? await promise
+                : await Promise.race([
+                      promise,
+                      delay(wait, { abortSignal: timer.signal }).then((): never => {
+                          throw new TimeoutError()
+                      }),
+                  ])
+
+            return decodeRegister(info, data)
+        } finally {
+            timer.abort()
+
+            unsubscribe().catch(() => {
+                // Best effort.
+            })
+        }
+    })
+}
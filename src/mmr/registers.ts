@@ -0,0 +1,65 @@
+import CodecError from '../errors/CodecError'
+import { MMRRegister, MMRRegisterInfo } from '../types'
+
+// Addresses and scales as used by de1app.
+export const MMRRegisters: Record<MMRRegister, MMRRegisterInfo> = {
+    [MMRRegister.CpuBoardModel]: { address: 0x800008, length: 4, scale: 1000 },
+    [MMRRegister.MachineModel]: { address: 0x80000c, length: 4 },
+    [MMRRegister.FirmwareBuild]: { address: 0x800010, length: 4 },
+    [MMRRegister.FanThreshold]: { address: 0x803808, length: 4 },
+    [MMRRegister.TankTemperatureThreshold]: { address: 0x80380c, length: 4 },
+    [MMRRegister.GHCInfo]: { address: 0x80381c, length: 4 },
+    [MMRRegister.GHCMode]: { address: 0x803820, length: 4 },
+    [MMRRegister.SteamFlow]: { address: 0x803828, length: 4, scale: 100 },
+    [MMRRegister.SteamHighFlowStart]: { address: 0x80382c, length: 4, scale: 10 },
+    [MMRRegister.SerialNumber]: { address: 0x803830, length: 4 },
+    [MMRRegister.HeaterVoltage]: { address: 0x803834, length: 4 },
+    [MMRRegister.FlushTimeout]: { address: 0x803848, length: 4, scale: 10 },
+    [MMRRegister.RefillKit]: { address: 0x80385c, length: 4 },
+}
+
+export function getRegisterInfo(register: MMRRegister | MMRRegisterInfo): MMRRegisterInfo {
+    const info = typeof register === 'string' ? MMRRegisters[register] : register
+
+    if (!info) {
+        throw new CodecError(`Unknown MMR register: ${register}`)
+    }
+
+    if (info.length <= 0 || info.length % 4 || info.length > 16) {
+        throw new CodecError(`Invalid MMR register length: ${info.length}`)
+    }
+
+    return info
+}
+
+export function decodeRegister({ length, scale = 1 }: MMRRegisterInfo, data: Uint8Array) {
+    if (data.byteLength < length) {
+        throw new CodecError(`Expected ${length} bytes of MMR data, got ${data.byteLength}`)
+    }
+
+    let value = 0
+
+    for (let i = length - 1; i >= 0; i--) {
+        value = value * 256 + data[i]
+    }
+
+    return value / scale
+}
+
+export function encodeRegister({ length, scale = 1 }: MMRRegisterInfo, value: number) {
+    let raw = Math.round(value * scale)
+
+    if (!Number.isFinite(raw) || raw < 0 || raw >= 2 ** (length * 8)) {
+        throw new CodecError(`MMR value out of range: ${value}`)
+    }
+
+    const data = new Uint8Array(length)
+
+    for (let i = 0; i < length; i++) {
+        data[i] = raw % 256
+
+        raw = Math.floor(raw / 256)
+    }
+
+    return data
+}
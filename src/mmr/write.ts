@@ -0,0 +1,26 @@
+import type CafeHubClient from '../index'
+import { encode } from '../codecs/index'
+import { CharAddr, MMRRegister, MMRRegisterInfo, SendOptions } from '../types'
+import { encodeRegister, getRegisterInfo } from './registers'
+
+export default async function writeMMR(
+    client: CafeHubClient,
+    mac: string,
+    register: MMRRegister | MMRRegisterInfo,
+    value: number,
+    options: SendOptions = {}
+) {
+    const info = getRegisterInfo(register)
+
+    await client.gattWrite(
+        mac,
+        CharAddr.WriteToMMR,
+        encode(CharAddr.WriteToMMR, {
+            // Unlike reads, writes take the length in bytes.
+            length: info.length,
+            address: info.address,
+            data: encodeRegister(info, value),
+        }),
+        options
+    )
+}
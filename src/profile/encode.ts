@@ -0,0 +1,103 @@
+import { ExtensionFrameOffset, frameCodec, headerCodec, tailFrameCodec } from '../codecs/index'
+import {
+    EncodedProfile,
+    FrameFlag,
+    FramePump,
+    FrameSensor,
+    FrameTransition,
+    Profile,
+    ProfileFrame,
+    ShotFrame,
+} from '../types'
+import { validateProfile } from './validate'
+
+const HeaderVersion = 1
+
+export function getFrameFlag({ pump, sensor, transition, exit }: ProfileFrame) {
+    let flag = 0
+
+    if (pump === FramePump.Flow) {
+        flag |= FrameFlag.CtrlF
+    }
+
+    if (sensor === FrameSensor.Water) {
+        flag |= FrameFlag.TMixTemp
+    }
+
+    if (transition === FrameTransition.Smooth) {
+        flag |= FrameFlag.Interpolate
+    }
+
+    if (exit) {
+        flag |= FrameFlag.DoCompare
+
+        if (exit.condition === 'over') {
+            flag |= FrameFlag.DcGt
+        }
+
+        if (exit.type === FramePump.Flow) {
+            flag |= FrameFlag.DcCompF
+        }
+    }
+
+    return flag
+}
+
+export function toShotFrame(frame: ProfileFrame, index: number): ShotFrame {
+    return {
+        frameToWrite: index,
+        flag: getFrameFlag(frame),
+        setVal: frame.target,
+        temp: frame.temperature,
+        frameLen: frame.seconds,
+        triggerVal: frame.exit?.value || 0,
+        maxVol: frame.volume || 0,
+    }
+}
+
+// Validates the profile and turns it into `HeaderWrite` and `FrameWrite` payloads.
+export function encodeProfile(profile: Profile): EncodedProfile {
+    validateProfile(profile)
+
+    const {
+        frames,
+        preinfuseFrameCount = 0,
+        minimumPressure = 0,
+        maximumFlow = 0,
+        targetVolume = 0,
+    } = profile
+
+    const header = headerCodec.encode({
+        headerVersion: HeaderVersion,
+        numberOfFrames: frames.length,
+        numberOfPreinfuseFrames: preinfuseFrameCount,
+        minimumPressure,
+        maximumFlow,
+    })
+
+    const shotFrames = frames.map((frame, i) => frameCodec.encode(toShotFrame(frame, i)))
+
+    const extensionFrames: Uint8Array[] = []
+
+    frames.forEach(({ limiter }, i) => {
+        if (limiter) {
+            extensionFrames.push(
+                frameCodec.encode({
+                    frameToWrite: i + ExtensionFrameOffset,
+                    maxFlowOrPressure: limiter.value,
+                    maxFlowOrPressureRange: limiter.range,
+                })
+            )
+        }
+    })
+
+    const tailFrame = tailFrameCodec.encode({
+        frameToWrite: frames.length,
+        maxTotalVolume: targetVolume,
+    })
+
+    return {
+        header,
+        frames: [...shotFrames, ...extensionFrames, tailFrame],
+    }
+}
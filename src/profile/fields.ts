@@ -0,0 +1,59 @@
+import ProfileFormatError from '../errors/ProfileFormatError'
+import { FramePump, FrameSensor, FrameTransition } from '../types'
+
+export function toNumber(value: unknown, field: string): number {
+    const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+
+    if (typeof num !== 'number' || !Number.isFinite(num)) {
+        throw new ProfileFormatError(`${field} has to be a number, got ${JSON.stringify(value)}`)
+    }
+
+    return num
+}
+
+export function toOptionalNumber(value: unknown, field: string): undefined | number {
+    return value === undefined || value === '' ? undefined : toNumber(value, field)
+}
+
+function toEnum<T extends string>(value: unknown, values: Record<string, T>, field: string): T {
+    const match = Object.keys(values).find((key) => values[key] === value)
+
+    if (match === undefined) {
+        throw new ProfileFormatError(`${field} has an unknown value: ${JSON.stringify(value)}`)
+    }
+
+    return values[match]
+}
+
+export function toPump(value: unknown, field: string) {
+    return toEnum(value, FramePump, field)
+}
+
+export function toSensor(value: unknown, field: string) {
+    return toEnum(value, FrameSensor, field)
+}
+
+export function toTransition(value: unknown, field: string) {
+    return toEnum(value, FrameTransition, field)
+}
+
+export function toCondition(value: unknown, field: string): 'over' | 'under' {
+    if (value !== 'over' && value !== 'under') {
+        throw new ProfileFormatError(`${field} has an unknown value: ${JSON.stringify(value)}`)
+    }
+
+    return value
+}
+
+export function assertKnownKeys(value: Record<string, unknown>, known: string[], where: string) {
+    const unknown = Object.keys(value).filter((key) => !known.includes(key))
+
+    if (unknown.length) {
+        throw new ProfileFormatError(`${where}: unknown field(s) ${unknown.join(', ')}`)
+    }
+}
+
+// Compact decimal representation, e.g. 88 and 0.6 rather than 88.00 and 0.60.
+export function formatNumber(value: number) {
+    return String(Math.round(value * 100) / 100)
+}
@@ -0,0 +1,23 @@
+advanced_shot {{exit_if 1 flow 4 volume 100 transition fast exit_flow_under 0 temperature 92.00 name {fill} pressure 1 sensor coffee pump flow exit_type pressure_over exit_flow_over 6 exit_pressure_over 3 exit_pressure_under 0 seconds 23.00 max_flow_or_pressure 0 max_flow_or_pressure_range 0.6} {exit_if 1 flow 0 volume 100 transition fast exit_flow_under 0 temperature 92.00 name {bloom} pressure 6.0 sensor coffee pump flow exit_type pressure_under exit_flow_over 6 exit_pressure_over 11 exit_pressure_under 0.5 seconds 30.00 max_flow_or_pressure 0 max_flow_or_pressure_range 0.6} {exit_if 1 flow 6 volume 100 transition fast exit_flow_under 0 temperature 92.00 name {ramp} pressure 6.0 sensor coffee pump flow exit_type pressure_over exit_flow_over 6 exit_pressure_over 8.5 exit_pressure_under 0 seconds 6.00 max_flow_or_pressure 0 max_flow_or_pressure_range 0.6} {exit_if 0 flow 2.2 volume 100 transition smooth exit_flow_under 0 temperature 92.00 name {flow extraction} pressure 6.0 sensor coffee pump flow exit_type pressure_over exit_flow_over 6 exit_pressure_over 11 exit_pressure_under 0 seconds 60.00 max_flow_or_pressure 9.5 max_flow_or_pressure_range 0.6}}
+author Decent
+beverage_type espresso
+espresso_decline_time 0
+espresso_hold_time 25
+espresso_pressure 6.0
+espresso_temperature 92.00
+final_desired_shot_volume 36
+final_desired_shot_volume_advanced 0
+final_desired_shot_volume_advanced_count_start 2
+final_desired_shot_weight 36
+final_desired_shot_weight_advanced 40
+maximum_flow_range_advanced 0.6
+maximum_pressure_range_advanced 0.6
+original_profile_title {Blooming espresso}
+preinfusion_guarantee 0
+profile_hide 0
+profile_language en
+profile_notes {Fills the puck, lets it bloom until the pressure is gone, then extracts at 2.2 ml/s.}
+profile_title {Blooming espresso}
+settings_profile_type settings_2c
+tank_desired_water_temperature 0
+water_temperature 80
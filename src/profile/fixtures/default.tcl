@@ -0,0 +1,43 @@
+advanced_shot {}
+author Decent
+beverage_type espresso
+espresso_decline_time 30
+espresso_hold_time 10
+espresso_pressure 8.6
+espresso_temperature 92.0
+espresso_temperature_0 92.0
+espresso_temperature_1 92.0
+espresso_temperature_2 92.0
+espresso_temperature_3 92.0
+espresso_temperature_steps_enabled 0
+final_desired_shot_volume 32
+final_desired_shot_volume_advanced 0
+final_desired_shot_volume_advanced_count_start 0
+final_desired_shot_weight 36
+final_desired_shot_weight_advanced 0
+flow_profile_decline 1.2
+flow_profile_decline_time 17
+flow_profile_hold 2
+flow_profile_hold_time 8
+flow_profile_minimum_pressure 4
+flow_profile_preinfusion 4
+flow_profile_preinfusion_time 5
+maximum_flow 0
+maximum_flow_range_advanced 0.6
+maximum_flow_range_default 1.0
+maximum_pressure 0
+maximum_pressure_range_advanced 0.6
+maximum_pressure_range_default 0.9
+original_profile_title Default
+preinfusion_flow_rate 4
+preinfusion_guarantee 0
+preinfusion_stop_pressure 4.0
+preinfusion_time 20
+pressure_end 6.0
+profile_hide 0
+profile_language en
+profile_notes {An easy-to-use pressure profile, with a gentle preinfusion, a rise to 8.6 bar and a slow decline.}
+profile_title Default
+settings_profile_type settings_2a
+tank_desired_water_temperature 0
+water_temperature 80
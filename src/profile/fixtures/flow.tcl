@@ -0,0 +1,43 @@
+advanced_shot {}
+author Decent
+beverage_type espresso
+espresso_decline_time 17
+espresso_hold_time 8
+espresso_pressure 8.6
+espresso_temperature 90.0
+espresso_temperature_0 92.0
+espresso_temperature_1 90.0
+espresso_temperature_2 90.0
+espresso_temperature_3 88.0
+espresso_temperature_steps_enabled 1
+final_desired_shot_volume 0
+final_desired_shot_volume_advanced 0
+final_desired_shot_volume_advanced_count_start 0
+final_desired_shot_weight 40
+final_desired_shot_weight_advanced 0
+flow_profile_decline 1.2
+flow_profile_decline_time 17
+flow_profile_hold 2.2
+flow_profile_hold_time 8
+flow_profile_minimum_pressure 4
+flow_profile_preinfusion 4
+flow_profile_preinfusion_time 5
+maximum_flow 0
+maximum_flow_range_advanced 0.6
+maximum_flow_range_default 1.0
+maximum_pressure 9
+maximum_pressure_range_advanced 0.6
+maximum_pressure_range_default 0.9
+original_profile_title {Flow profile for straight espresso}
+preinfusion_flow_rate 4
+preinfusion_guarantee 0
+preinfusion_stop_pressure 4.0
+preinfusion_time 5
+pressure_end 6.0
+profile_hide 0
+profile_language en
+profile_notes {Easy-to-use flow profile, with temperature steps. Holds 2.2 ml/s, then declines to 1.2 ml/s.}
+profile_title {Flow profile for straight espresso}
+settings_profile_type settings_2b
+tank_desired_water_temperature 0
+water_temperature 80
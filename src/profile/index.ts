@@ -0,0 +1,7 @@
+export { encodeProfile, getFrameFlag, toShotFrame } from './encode'
+export { parseJsonProfile, serializeJsonProfile } from './json'
+export { expandSimpleProfile } from './legacy'
+export { parseTclProfile, serializeTclProfile } from './tcl'
+export { formatTclList, parseTclDict, parseTclList } from './tclList'
+export { default as uploadProfile } from './upload'
+export { getProfileIssues, ProfileLimits, validateProfile } from './validate'
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest'
+import ProfileFormatError from '../errors/ProfileFormatError'
+import { FramePump, FrameSensor, FrameTransition } from '../types'
+import londiniumJson from './fixtures/londinium.json?raw'
+import { encodeProfile } from './encode'
+import { parseJsonProfile, serializeJsonProfile } from './json'
+import { parseTclProfile, serializeTclProfile } from './tcl'
+
+describe('de1app JSON v2 profiles', () => {
+    it('reads profiles', () => {
+        const profile = parseJsonProfile(londiniumJson)
+
+        expect(profile).toMatchObject({
+            title: 'Londinium',
+            author: 'Decent',
+            beverageType: 'espresso',
+            preinfuseFrameCount: 2,
+            targetWeight: 36,
+        })
+
+        expect(profile.targetVolume).toBeUndefined()
+
+        expect(profile.frames).toEqual([
+            {
+                name: 'fill',
+                pump: FramePump.Flow,
+                target: 8,
+                temperature: 88,
+                sensor: FrameSensor.Coffee,
+                transition: FrameTransition.Fast,
+                seconds: 25,
+                exit: {
+                    type: FramePump.Pressure,
+                    condition: 'over',
+                    value: 3,
+                },
+            },
+            {
+                name: 'soak',
+                pump: FramePump.Pressure,
+                target: 3,
+                temperature: 88,
+                sensor: FrameSensor.Coffee,
+                transition: FrameTransition.Fast,
+                seconds: 4,
+            },
+            {
+                name: 'rise',
+                pump: FramePump.Pressure,
+                target: 9,
+                temperature: 88,
+                sensor: FrameSensor.Coffee,
+                transition: FrameTransition.Fast,
+                seconds: 4,
+                exit: {
+                    type: FramePump.Pressure,
+                    condition: 'over',
+                    value: 8.8,
+                },
+            },
+            {
+                name: 'decline',
+                pump: FramePump.Pressure,
+                target: 3,
+                temperature: 88,
+                sensor: FrameSensor.Coffee,
+                transition: FrameTransition.Smooth,
+                seconds: 50,
+                limiter: {
+                    value: 3.5,
+                    range: 1,
+                },
+            },
+        ])
+    })
+
+    it('accepts parsed objects', () => {
+        expect(parseJsonProfile(JSON.parse(londiniumJson))).toEqual(parseJsonProfile(londiniumJson))
+    })
+
+    describe('round trips', () => {
+        const profile = parseJsonProfile(londiniumJson)
+
+        it('survives export to JSON', () => {
+            const exported = serializeJsonProfile(profile)
+
+            expect(parseJsonProfile(exported)).toEqual(profile)
+
+            // Exporting is stable.
+            expect(serializeJsonProfile(parseJsonProfile(exported))).toBe(exported)
+        })
+
+        it('survives export to TCL', () => {
+            expect(parseTclProfile(serializeTclProfile(profile))).toEqual(profile)
+        })
+
+        it('encodes for the machine', () => {
+            expect(encodeProfile(profile).frames).toHaveLength(profile.frames.length + 2)
+        })
+    })
+
+    it('exports what de1app writes', () => {
+        const exported = JSON.parse(serializeJsonProfile(parseJsonProfile(londiniumJson)))
+
+        expect(exported).toMatchObject({
+            title: 'Londinium',
+            version: '2',
+            legacy_profile_type: 'settings_2c',
+            type: 'advanced',
+            target_weight: '36',
+            target_volume_count_start: '2',
+        })
+
+        expect(exported.steps[3]).toEqual({
+            name: 'decline',
+            temperature: '88',
+            sensor: 'coffee',
+            pump: 'pressure',
+            transition: 'smooth',
+            pressure: '3',
+            flow: '0',
+            seconds: '50',
+            volume: '0',
+            limiter: {
+                value: '3.5',
+                range: '1',
+            },
+        })
+    })
+
+    describe('errors', () => {
+        const fixture = () => JSON.parse(londiniumJson)
+
+        it('rejects invalid JSON', () => {
+            expect(() => parseJsonProfile(londiniumJson.slice(0, -10))).toThrow(ProfileFormatError)
+        })
+
+        it('rejects unknown profile fields', () => {
+            expect(() =>
+                parseJsonProfile({
+                    ...fixture(),
+                    grinder: 'Niche',
+                })
+            ).toThrow(new ProfileFormatError('Profile: unknown field(s) grinder'))
+        })
+
+        it('rejects unknown step fields', () => {
+            const json = fixture()
+
+            json.steps[2].wobble = '1'
+
+            expect(() => parseJsonProfile(json)).toThrow(
+                new ProfileFormatError('Step 2: unknown field(s) wobble')
+            )
+        })
+
+        it('rejects other versions', () => {
+            expect(() =>
+                parseJsonProfile({
+                    ...fixture(),
+                    version: '3',
+                })
+            ).toThrow(new ProfileFormatError('Unsupported version: 3'))
+        })
+
+        it('rejects unknown pumps', () => {
+            const json = fixture()
+
+            json.steps[0].pump = 'lever'
+
+            expect(() => parseJsonProfile(json)).toThrow(
+                new ProfileFormatError('Step 0 pump has an unknown value: "lever"')
+            )
+        })
+    })
+})
@@ -0,0 +1,248 @@
+import ProfileFormatError from '../errors/ProfileFormatError'
+import { FramePump, LegacyProfileType, Profile, ProfileFrame } from '../types'
+import {
+    assertKnownKeys,
+    formatNumber,
+    toCondition,
+    toNumber,
+    toOptionalNumber,
+    toPump,
+    toSensor,
+    toTransition,
+} from './fields'
+
+const Version = '2'
+
+const StepKeys = [
+    'exit',
+    'flow',
+    'limiter',
+    'name',
+    'popup',
+    'pressure',
+    'pump',
+    'seconds',
+    'sensor',
+    'temperature',
+    'transition',
+    'volume',
+    'weight',
+]
+
+const ProfileKeys = [
+    'author',
+    'beverage_type',
+    'changes_since_last_espresso',
+    'hidden',
+    'lang',
+    'legacy_profile_type',
+    'notes',
+    'reference_file',
+    'steps',
+    'tank_temperature',
+    'target_volume',
+    'target_volume_count_start',
+    'target_weight',
+    'title',
+    'type',
+    'version',
+]
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function toObject(value: unknown, field: string) {
+    if (!isObject(value)) {
+        throw new ProfileFormatError(`${field} has to be an object`)
+    }
+
+    return value
+}
+
+function toOptionalString(value: unknown, field: string) {
+    if (value !== undefined && typeof value !== 'string') {
+        throw new ProfileFormatError(`${field} has to be a string`)
+    }
+
+    return value || undefined
+}
+
+function parseStep(value: unknown, index: number): ProfileFrame {
+    const where = `Step ${index}`
+
+    const step = toObject(value, where)
+
+    assertKnownKeys(step, StepKeys, where)
+
+    const pump = toPump(step.pump, `${where} pump`)
+
+    const frame: ProfileFrame = {
+        pump,
+        target: toNumber(step[pump], `${where} ${pump}`),
+        temperature: toNumber(step.temperature, `${where} temperature`),
+        sensor: toSensor(step.sensor, `${where} sensor`),
+        transition: toTransition(step.transition, `${where} transition`),
+        seconds: toNumber(step.seconds, `${where} seconds`),
+    }
+
+    const name = toOptionalString(step.name, `${where} name`)
+
+    if (name) {
+        frame.name = name
+    }
+
+    const volume = toOptionalNumber(step.volume, `${where} volume`)
+
+    if (volume) {
+        frame.volume = volume
+    }
+
+    if (step.exit !== undefined) {
+        const exit = toObject(step.exit, `${where} exit`)
+
+        assertKnownKeys(exit, ['condition', 'type', 'value'], `${where} exit`)
+
+        frame.exit = {
+            type: toPump(exit.type, `${where} exit type`),
+            condition: toCondition(exit.condition, `${where} exit condition`),
+            value: toNumber(exit.value, `${where} exit value`),
+        }
+    }
+
+    if (step.limiter !== undefined) {
+        const limiter = toObject(step.limiter, `${where} limiter`)
+
+        assertKnownKeys(limiter, ['range', 'value'], `${where} limiter`)
+
+        const limit = toNumber(limiter.value, `${where} limiter value`)
+
+        if (limit) {
+            frame.limiter = {
+                value: limit,
+                range: toOptionalNumber(limiter.range, `${where} limiter range`) || 0,
+            }
+        }
+    }
+
+    return frame
+}
+
+// Reads a de1app JSON (v2) profile. Accepts a string or an already parsed object. Numbers
+// can be given as numbers or numeric strings, like de1app writes them.
+export function parseJsonProfile(input: string | Record<string, unknown>): Profile {
+    let data: unknown = input
+
+    if (typeof input === 'string') {
+        try {
+            data = JSON.parse(input)
+        } catch (e) {
+            throw new ProfileFormatError(`Invalid JSON: ${(e as Error).message}`)
+        }
+    }
+
+    const json = toObject(data, 'Profile')
+
+    assertKnownKeys(json, ProfileKeys, 'Profile')
+
+    if (json.version !== undefined && String(json.version) !== Version) {
+        throw new ProfileFormatError(`Unsupported version: ${json.version}`)
+    }
+
+    if (!Array.isArray(json.steps)) {
+        throw new ProfileFormatError('steps has to be an array')
+    }
+
+    const profile: Profile = {
+        title: toOptionalString(json.title, 'title') || '',
+        frames: json.steps.map(parseStep),
+    }
+
+    const author = toOptionalString(json.author, 'author')
+
+    if (author) {
+        profile.author = author
+    }
+
+    const notes = toOptionalString(json.notes, 'notes')
+
+    if (notes) {
+        profile.notes = notes
+    }
+
+    const beverageType = toOptionalString(json.beverage_type, 'beverage_type')
+
+    if (beverageType) {
+        profile.beverageType = beverageType
+    }
+
+    const numbers: [keyof Profile, string][] = [
+        ['preinfuseFrameCount', 'target_volume_count_start'],
+        ['targetVolume', 'target_volume'],
+        ['targetWeight', 'target_weight'],
+        ['tankTemperature', 'tank_temperature'],
+    ]
+
+    numbers.forEach(([key, field]) => {
+        const value = toOptionalNumber(json[field], field)
+
+        if (value) {
+            Object.assign(profile, { [key]: value })
+        }
+    })
+
+    return profile
+}
+
+function serializeStep(frame: ProfileFrame) {
+    const step: Record<string, unknown> = {
+        name: frame.name || '',
+        temperature: formatNumber(frame.temperature),
+        sensor: frame.sensor,
+        pump: frame.pump,
+        transition: frame.transition,
+        pressure: formatNumber(frame.pump === FramePump.Pressure ? frame.target : 0),
+        flow: formatNumber(frame.pump === FramePump.Flow ? frame.target : 0),
+        seconds: formatNumber(frame.seconds),
+        volume: formatNumber(frame.volume || 0),
+    }
+
+    if (frame.exit) {
+        step.exit = {
+            type: frame.exit.type,
+            condition: frame.exit.condition,
+            value: formatNumber(frame.exit.value),
+        }
+    }
+
+    if (frame.limiter) {
+        step.limiter = {
+            value: formatNumber(frame.limiter.value),
+            range: formatNumber(frame.limiter.range),
+        }
+    }
+
+    return step
+}
+
+// Writes the profile as de1app JSON (v2), with numbers as strings.
+export function serializeJsonProfile(profile: Profile) {
+    return JSON.stringify(
+        {
+            title: profile.title,
+            author: profile.author || '',
+            notes: profile.notes || '',
+            beverage_type: profile.beverageType || 'espresso',
+            steps: profile.frames.map(serializeStep),
+            target_volume: formatNumber(profile.targetVolume || 0),
+            target_weight: formatNumber(profile.targetWeight || 0),
+            target_volume_count_start: formatNumber(profile.preinfuseFrameCount || 0),
+            tank_temperature: formatNumber(profile.tankTemperature || 0),
+            version: Version,
+            legacy_profile_type: LegacyProfileType.Advanced,
+            type: 'advanced',
+        },
+        null,
+        4
+    )
+}
@@ -0,0 +1,91 @@
+import {
+    FramePump,
+    FrameSensor,
+    FrameTransition,
+    LegacyProfileType,
+    ProfileFrame,
+    SimpleProfileSettings,
+} from '../types'
+
+// Turns a simple profile into the advanced frames de1app would send to the machine: an optional
+// preinfusion (split in two when temperature steps are on), a hold and a decline. Frames that
+// last 0 seconds are skipped.
+export function expandSimpleProfile(
+    type: LegacyProfileType.Pressure | LegacyProfileType.Flow,
+    settings: SimpleProfileSettings,
+    { temperatureSteps = false }: { temperatureSteps?: boolean } = {}
+) {
+    const [t0, t1, t2, t3] = temperatureSteps
+        ? settings.temperatures
+        : [0, 0, 0, 0].map(() => settings.temperatures[0])
+
+    const isFlow = type === LegacyProfileType.Flow
+
+    const preinfusion: ProfileFrame[] = []
+
+    const preinfusionFrame = (
+        name: string,
+        temperature: number,
+        seconds: number
+    ): ProfileFrame => ({
+        name,
+        pump: FramePump.Flow,
+        target: settings.preinfusionFlowRate,
+        temperature,
+        sensor: FrameSensor.Coffee,
+        transition: FrameTransition.Fast,
+        seconds,
+        volume: 100,
+        exit: {
+            type: FramePump.Pressure,
+            condition: 'over',
+            value: settings.preinfusionStopPressure,
+        },
+    })
+
+    if (settings.preinfusionTime > 0) {
+        if (temperatureSteps && settings.preinfusionTime > 2) {
+            preinfusion.push(preinfusionFrame('preinfusion temp boost', t0, 2))
+
+            preinfusion.push(preinfusionFrame('preinfusion', t1, settings.preinfusionTime - 2))
+        } else {
+            preinfusion.push(preinfusionFrame('preinfusion', t0, settings.preinfusionTime))
+        }
+    }
+
+    const limit = (value: number, range: number) => (value > 0 ? { limiter: { value, range } } : {})
+
+    const pour: ProfileFrame[] = [
+        {
+            name: isFlow ? 'hold' : 'rise and hold',
+            pump: isFlow ? FramePump.Flow : FramePump.Pressure,
+            target: isFlow ? settings.flowHold : settings.espressoPressure,
+            temperature: t2,
+            sensor: FrameSensor.Coffee,
+            transition: FrameTransition.Fast,
+            seconds: settings.holdTime,
+            volume: 100,
+            ...(isFlow
+                ? limit(settings.maximumPressure, settings.maximumPressureRange)
+                : limit(settings.maximumFlow, settings.maximumFlowRange)),
+        },
+        {
+            name: 'decline',
+            pump: isFlow ? FramePump.Flow : FramePump.Pressure,
+            target: isFlow ? settings.flowDecline : settings.pressureEnd,
+            temperature: t3,
+            sensor: FrameSensor.Coffee,
+            transition: FrameTransition.Smooth,
+            seconds: settings.declineTime,
+            volume: 100,
+            ...(isFlow
+                ? limit(settings.maximumPressure, settings.maximumPressureRange)
+                : limit(settings.maximumFlow, settings.maximumFlowRange)),
+        },
+    ].filter(({ seconds }) => seconds > 0)
+
+    return {
+        frames: [...preinfusion, ...pour],
+        preinfuseFrameCount: preinfusion.length,
+    }
+}
@@ -0,0 +1,278 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import ProfileFormatError from '../errors/ProfileFormatError'
+import { FramePump, FrameSensor, FrameTransition, Profile } from '../types'
+import bloomingTcl from './fixtures/blooming.tcl?raw'
+import defaultTcl from './fixtures/default.tcl?raw'
+import flowTcl from './fixtures/flow.tcl?raw'
+import { encodeProfile } from './encode'
+import { parseJsonProfile, serializeJsonProfile } from './json'
+import { parseTclProfile, serializeTclProfile } from './tcl'
+
+describe('de1app TCL profiles', () => {
+    it('reads advanced profiles', () => {
+        const profile = parseTclProfile(bloomingTcl)
+
+        expect(profile).toMatchObject({
+            title: 'Blooming espresso',
+            author: 'Decent',
+            beverageType: 'espresso',
+            preinfuseFrameCount: 2,
+            targetWeight: 40,
+        })
+
+        expect(profile.targetVolume).toBeUndefined()
+
+        expect(profile.frames).toEqual([
+            {
+                name: 'fill',
+                pump: FramePump.Flow,
+                target: 4,
+                temperature: 92,
+                sensor: FrameSensor.Coffee,
+                transition: FrameTransition.Fast,
+                seconds: 23,
+                volume: 100,
+                exit: {
+                    type: FramePump.Pressure,
+                    condition: 'over',
+                    value: 3,
+                },
+            },
+            {
+                name: 'bloom',
+                pump: FramePump.Flow,
+                target: 0,
+                temperature: 92,
+                sensor: FrameSensor.Coffee,
+                transition: FrameTransition.Fast,
+                seconds: 30,
+                volume: 100,
+                exit: {
+                    type: FramePump.Pressure,
+                    condition: 'under',
+                    value: 0.5,
+                },
+            },
+            {
+                name: 'ramp',
+                pump: FramePump.Flow,
+                target: 6,
+                temperature: 92,
+                sensor: FrameSensor.Coffee,
+                transition: FrameTransition.Fast,
+                seconds: 6,
+                volume: 100,
+                exit: {
+                    type: FramePump.Pressure,
+                    condition: 'over',
+                    value: 8.5,
+                },
+            },
+            {
+                name: 'flow extraction',
+                pump: FramePump.Flow,
+                target: 2.2,
+                temperature: 92,
+                sensor: FrameSensor.Coffee,
+                transition: FrameTransition.Smooth,
+                seconds: 60,
+                volume: 100,
+                limiter: {
+                    value: 9.5,
+                    range: 0.6,
+                },
+            },
+        ])
+    })
+
+    it('expands simple pressure profiles', () => {
+        const profile = parseTclProfile(defaultTcl)
+
+        expect(profile).toMatchObject({
+            title: 'Default',
+            preinfuseFrameCount: 1,
+            targetVolume: 32,
+            targetWeight: 36,
+        })
+
+        expect(
+            profile.frames.map(({ name, pump, target, temperature, seconds }) => ({
+                name,
+                pump,
+                target,
+                temperature,
+                seconds,
+            }))
+        ).toEqual([
+            {
+                name: 'preinfusion',
+                pump: FramePump.Flow,
+                target: 4,
+                temperature: 92,
+                seconds: 20,
+            },
+            {
+                name: 'rise and hold',
+                pump: FramePump.Pressure,
+                target: 8.6,
+                temperature: 92,
+                seconds: 10,
+            },
+            {
+                name: 'decline',
+                pump: FramePump.Pressure,
+                target: 6,
+                temperature: 92,
+                seconds: 30,
+            },
+        ])
+
+        expect(profile.frames[0].exit).toEqual({
+            type: FramePump.Pressure,
+            condition: 'over',
+            value: 4,
+        })
+    })
+
+    it('expands simple flow profiles with temperature steps', () => {
+        const profile = parseTclProfile(flowTcl)
+
+        expect(profile.preinfuseFrameCount).toBe(2)
+
+        expect(
+            profile.frames.map(({ name, pump, target, temperature, seconds, limiter }) => ({
+                name,
+                pump,
+                target,
+                temperature,
+                seconds,
+                limiter,
+            }))
+        ).toEqual([
+            {
+                name: 'preinfusion temp boost',
+                pump: FramePump.Flow,
+                target: 4,
+                temperature: 92,
+                seconds: 2,
+                limiter: undefined,
+            },
+            {
+                name: 'preinfusion',
+                pump: FramePump.Flow,
+                target: 4,
+                temperature: 90,
+                seconds: 3,
+                limiter: undefined,
+            },
+            {
+                name: 'hold',
+                pump: FramePump.Flow,
+                target: 2.2,
+                temperature: 90,
+                seconds: 8,
+                limiter: {
+                    value: 9,
+                    range: 0.9,
+                },
+            },
+            {
+                name: 'decline',
+                pump: FramePump.Flow,
+                target: 1.2,
+                temperature: 88,
+                seconds: 17,
+                limiter: {
+                    value: 9,
+                    range: 0.9,
+                },
+            },
+        ])
+    })
+
+    describe('round trips', () => {
+        const fixtures: [string, string][] = [
+            ['blooming.tcl', bloomingTcl],
+            ['default.tcl', defaultTcl],
+            ['flow.tcl', flowTcl],
+        ]
+
+        fixtures.forEach(([name, input]) => {
+            describe(name, () => {
+                let profile: Profile
+
+                beforeEach(() => {
+                    profile = parseTclProfile(input)
+                })
+
+                it('survives export to TCL', () => {
+                    const exported = serializeTclProfile(profile)
+
+                    expect(parseTclProfile(exported)).toEqual(profile)
+
+                    // Exporting is stable.
+                    expect(serializeTclProfile(parseTclProfile(exported))).toBe(exported)
+                })
+
+                it('survives export to JSON', () => {
+                    expect(parseJsonProfile(serializeJsonProfile(profile))).toEqual(profile)
+                })
+
+                it('encodes for the machine', () => {
+                    const { frames } = encodeProfile(profile)
+
+                    // Every frame, its extension frame if limited, and the tail.
+                    expect(frames).toHaveLength(
+                        profile.frames.length +
+                            profile.frames.filter(({ limiter }) => limiter).length +
+                            1
+                    )
+                })
+            })
+        })
+    })
+
+    it('exports advanced profiles', () => {
+        const exported = serializeTclProfile(parseTclProfile(bloomingTcl))
+
+        expect(exported.split('\n')).toContain('settings_profile_type settings_2c')
+
+        expect(exported.split('\n')).toContain('final_desired_shot_weight_advanced 40')
+
+        expect(exported.split('\n')).toContain(
+            'profile_notes {Fills the puck, lets it bloom until the pressure is gone, then extracts at 2.2 ml/s.}'
+        )
+    })
+
+    describe('errors', () => {
+        it('rejects unknown profile fields', () => {
+            expect(() => parseTclProfile(`${defaultTcl}shot_colour purple\n`)).toThrow(
+                new ProfileFormatError('Profile: unknown field(s) shot_colour')
+            )
+        })
+
+        it('rejects unknown frame fields', () => {
+            const input = bloomingTcl.replace('name {bloom}', 'name {bloom} wobble 1')
+
+            expect(() => parseTclProfile(input)).toThrow(
+                new ProfileFormatError('Frame 1: unknown field(s) wobble')
+            )
+        })
+
+        it('rejects unknown profile types', () => {
+            const input = defaultTcl.replace('settings_2a', 'settings_9z')
+
+            expect(() => parseTclProfile(input)).toThrow(
+                new ProfileFormatError('Unknown settings_profile_type: settings_9z')
+            )
+        })
+
+        it('rejects malformed numbers', () => {
+            const input = bloomingTcl.replace('seconds 30.00', 'seconds thirty')
+
+            expect(() => parseTclProfile(input)).toThrow(
+                new ProfileFormatError('Frame 1 seconds has to be a number, got "thirty"')
+            )
+        })
+    })
+})
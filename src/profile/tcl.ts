@@ -0,0 +1,352 @@
+import ProfileFormatError from '../errors/ProfileFormatError'
+import { FramePump, LegacyProfileType, Profile, ProfileFrame } from '../types'
+import {
+    assertKnownKeys,
+    formatNumber,
+    toNumber,
+    toOptionalNumber,
+    toPump,
+    toSensor,
+    toTransition,
+} from './fields'
+import { expandSimpleProfile } from './legacy'
+import { formatTclList, parseTclDict, parseTclList } from './tclList'
+
+const FrameKeys = [
+    'exit_flow_over',
+    'exit_flow_under',
+    'exit_if',
+    'exit_pressure_over',
+    'exit_pressure_under',
+    'exit_type',
+    'flow',
+    'max_flow_or_pressure',
+    'max_flow_or_pressure_range',
+    'name',
+    'popup',
+    'pressure',
+    'pump',
+    'seconds',
+    'sensor',
+    'temperature',
+    'transition',
+    'volume',
+    'weight',
+]
+
+// Settings de1app keeps in profile files but which don't end up on the machine.
+const IgnoredKeys = [
+    'espresso_temperature_steps_enabled',
+    'flow_profile_minimum_pressure',
+    'flow_profile_preinfusion',
+    'flow_profile_preinfusion_time',
+    'maximum_flow_range_advanced',
+    'maximum_pressure_range_advanced',
+    'original_profile_title',
+    'preinfusion_guarantee',
+    'profile_hide',
+    'profile_language',
+    'water_temperature',
+]
+
+const SimpleKeys = [
+    'espresso_decline_time',
+    'espresso_hold_time',
+    'espresso_pressure',
+    'espresso_temperature',
+    'espresso_temperature_0',
+    'espresso_temperature_1',
+    'espresso_temperature_2',
+    'espresso_temperature_3',
+    'flow_profile_decline',
+    'flow_profile_decline_time',
+    'flow_profile_hold',
+    'flow_profile_hold_time',
+    'maximum_flow',
+    'maximum_flow_range_default',
+    'maximum_pressure',
+    'maximum_pressure_range_default',
+    'preinfusion_flow_rate',
+    'preinfusion_stop_pressure',
+    'preinfusion_time',
+    'pressure_end',
+]
+
+const ProfileKeys = [
+    'advanced_shot',
+    'author',
+    'beverage_type',
+    'final_desired_shot_volume',
+    'final_desired_shot_volume_advanced',
+    'final_desired_shot_volume_advanced_count_start',
+    'final_desired_shot_weight',
+    'final_desired_shot_weight_advanced',
+    'profile_notes',
+    'profile_title',
+    'settings_profile_type',
+    'tank_desired_water_temperature',
+    ...SimpleKeys,
+    ...IgnoredKeys,
+]
+
+const ExitTypes: Record<string, [FramePump, 'over' | 'under']> = {
+    flow_over: [FramePump.Flow, 'over'],
+    flow_under: [FramePump.Flow, 'under'],
+    pressure_over: [FramePump.Pressure, 'over'],
+    pressure_under: [FramePump.Pressure, 'under'],
+}
+
+function parseTclFrame(input: string, index: number): ProfileFrame {
+    const where = `Frame ${index}`
+
+    const dict = parseTclDict(input)
+
+    assertKnownKeys(dict, FrameKeys, where)
+
+    const pump = toPump(dict.pump, `${where} pump`)
+
+    const frame: ProfileFrame = {
+        pump,
+        target: toNumber(dict[pump], `${where} ${pump}`),
+        temperature: toNumber(dict.temperature, `${where} temperature`),
+        sensor: toSensor(dict.sensor, `${where} sensor`),
+        transition: toTransition(dict.transition, `${where} transition`),
+        seconds: toNumber(dict.seconds, `${where} seconds`),
+    }
+
+    if (dict.name) {
+        frame.name = dict.name
+    }
+
+    const volume = toOptionalNumber(dict.volume, `${where} volume`)
+
+    if (volume) {
+        frame.volume = volume
+    }
+
+    if (dict.exit_if === '1') {
+        const exit = ExitTypes[dict.exit_type]
+
+        if (!exit) {
+            throw new ProfileFormatError(
+                `${where} exit_type has an unknown value: ${dict.exit_type}`
+            )
+        }
+
+        const [type, condition] = exit
+
+        frame.exit = {
+            type,
+            condition,
+            value: toNumber(dict[`exit_${dict.exit_type}`], `${where} exit_${dict.exit_type}`),
+        }
+    }
+
+    const limit = toOptionalNumber(dict.max_flow_or_pressure, `${where} max_flow_or_pressure`)
+
+    if (limit) {
+        frame.limiter = {
+            value: limit,
+            range:
+                toOptionalNumber(
+                    dict.max_flow_or_pressure_range,
+                    `${where} max_flow_or_pressure_range`
+                ) || 0,
+        }
+    }
+
+    return frame
+}
+
+function parseSimpleFrames(
+    type: LegacyProfileType.Pressure | LegacyProfileType.Flow,
+    dict: Record<string, string>
+) {
+    const num = (key: string, fallback = 0) => toOptionalNumber(dict[key], key) ?? fallback
+
+    const temperature = num('espresso_temperature')
+
+    const isFlow = type === LegacyProfileType.Flow
+
+    return expandSimpleProfile(
+        type,
+        {
+            temperatures: [
+                num('espresso_temperature_0', temperature),
+                num('espresso_temperature_1', temperature),
+                num('espresso_temperature_2', temperature),
+                num('espresso_temperature_3', temperature),
+            ],
+            preinfusionTime: num('preinfusion_time'),
+            preinfusionFlowRate: num('preinfusion_flow_rate', 4),
+            preinfusionStopPressure: num('preinfusion_stop_pressure', 4),
+            holdTime: isFlow
+                ? num('espresso_hold_time', num('flow_profile_hold_time'))
+                : num('espresso_hold_time'),
+            declineTime: isFlow
+                ? num('espresso_decline_time', num('flow_profile_decline_time'))
+                : num('espresso_decline_time'),
+            espressoPressure: num('espresso_pressure'),
+            pressureEnd: num('pressure_end'),
+            maximumFlow: num('maximum_flow'),
+            maximumFlowRange: num('maximum_flow_range_default', 0.6),
+            flowHold: num('flow_profile_hold'),
+            flowDecline: num('flow_profile_decline'),
+            maximumPressure: num('maximum_pressure'),
+            maximumPressureRange: num('maximum_pressure_range_default', 0.6),
+        },
+        {
+            temperatureSteps: dict.espresso_temperature_steps_enabled === '1',
+        }
+    )
+}
+
+// Reads a de1app `.tcl` profile. Simple pressure (`settings_2a`) and flow (`settings_2b`)
+// profiles get expanded into the frames de1app would have sent to the machine.
+export function parseTclProfile(input: string): Profile {
+    const dict = parseTclDict(input)
+
+    assertKnownKeys(dict, ProfileKeys, 'Profile')
+
+    const type = dict.settings_profile_type || LegacyProfileType.Advanced
+
+    let frames: ProfileFrame[]
+
+    let preinfuseFrameCount: undefined | number
+
+    switch (type) {
+        case LegacyProfileType.Pressure:
+        case LegacyProfileType.Flow:
+            ;({ frames, preinfuseFrameCount } = parseSimpleFrames(type, dict))
+            break
+        case LegacyProfileType.Advanced:
+        case LegacyProfileType.AdvancedWithLimits:
+            frames = parseTclList(dict.advanced_shot || '').map(parseTclFrame)
+
+            preinfuseFrameCount = toOptionalNumber(
+                dict.final_desired_shot_volume_advanced_count_start,
+                'final_desired_shot_volume_advanced_count_start'
+            )
+            break
+        default:
+            throw new ProfileFormatError(`Unknown settings_profile_type: ${type}`)
+    }
+
+    const isAdvanced =
+        type === LegacyProfileType.Advanced || type === LegacyProfileType.AdvancedWithLimits
+
+    const profile: Profile = {
+        title: dict.profile_title || '',
+        frames,
+    }
+
+    if (dict.author) {
+        profile.author = dict.author
+    }
+
+    if (dict.profile_notes) {
+        profile.notes = dict.profile_notes
+    }
+
+    if (dict.beverage_type) {
+        profile.beverageType = dict.beverage_type
+    }
+
+    if (preinfuseFrameCount) {
+        profile.preinfuseFrameCount = preinfuseFrameCount
+    }
+
+    const targetVolume = toOptionalNumber(
+        dict[isAdvanced ? 'final_desired_shot_volume_advanced' : 'final_desired_shot_volume'],
+        'final_desired_shot_volume'
+    )
+
+    if (targetVolume) {
+        profile.targetVolume = targetVolume
+    }
+
+    const targetWeight = toOptionalNumber(
+        dict[isAdvanced ? 'final_desired_shot_weight_advanced' : 'final_desired_shot_weight'],
+        'final_desired_shot_weight'
+    )
+
+    if (targetWeight) {
+        profile.targetWeight = targetWeight
+    }
+
+    const tankTemperature = toOptionalNumber(
+        dict.tank_desired_water_temperature,
+        'tank_desired_water_temperature'
+    )
+
+    if (tankTemperature) {
+        profile.tankTemperature = tankTemperature
+    }
+
+    return profile
+}
+
+function serializeTclFrame(frame: ProfileFrame) {
+    const { exit, limiter } = frame
+
+    const exitType = exit ? `${exit.type}_${exit.condition}` : 'pressure_over'
+
+    const words: string[] = [
+        'name',
+        frame.name || '',
+        'temperature',
+        formatNumber(frame.temperature),
+        'sensor',
+        frame.sensor,
+        'pump',
+        frame.pump,
+        'transition',
+        frame.transition,
+        'pressure',
+        formatNumber(frame.pump === FramePump.Pressure ? frame.target : 0),
+        'flow',
+        formatNumber(frame.pump === FramePump.Flow ? frame.target : 0),
+        'seconds',
+        formatNumber(frame.seconds),
+        'volume',
+        formatNumber(frame.volume || 0),
+        'exit_if',
+        exit ? '1' : '0',
+        'exit_type',
+        exitType,
+    ]
+
+    if (exit) {
+        words.push(`exit_${exitType}`, formatNumber(exit.value))
+    }
+
+    words.push(
+        'max_flow_or_pressure',
+        formatNumber(limiter?.value || 0),
+        'max_flow_or_pressure_range',
+        formatNumber(limiter?.range || 0)
+    )
+
+    return formatTclList(words)
+}
+
+// Writes the profile as a de1app advanced (`settings_2c`) `.tcl` profile, one key per line.
+export function serializeTclProfile(profile: Profile) {
+    const entries: [string, string][] = [
+        ['advanced_shot', formatTclList(profile.frames.map(serializeTclFrame))],
+        ['author', profile.author || ''],
+        ['beverage_type', profile.beverageType || 'espresso'],
+        ['final_desired_shot_volume_advanced', formatNumber(profile.targetVolume || 0)],
+        [
+            'final_desired_shot_volume_advanced_count_start',
+            formatNumber(profile.preinfuseFrameCount || 0),
+        ],
+        ['final_desired_shot_weight_advanced', formatNumber(profile.targetWeight || 0)],
+        ['profile_notes', profile.notes || ''],
+        ['profile_title', profile.title],
+        ['settings_profile_type', LegacyProfileType.Advanced],
+        ['tank_desired_water_temperature', formatNumber(profile.tankTemperature || 0)],
+    ]
+
+    return entries.map((entry) => `${formatTclList(entry)}\n`).join('')
+}
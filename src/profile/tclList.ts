@@ -0,0 +1,140 @@
+import ProfileFormatError from '../errors/ProfileFormatError'
+
+// Just enough Tcl to read and write de1app profiles: lists of words, braces, quotes and
+// backslash escapes. No substitution happens.
+
+function isSpace(char: string) {
+    return char === ' ' || char === '\t' || char === '\n' || char === '\r'
+}
+
+export function parseTclList(input: string): string[] {
+    const words: string[] = []
+
+    let i = 0
+
+    while (i < input.length) {
+        while (i < input.length && isSpace(input[i])) {
+            i++
+        }
+
+        if (i >= input.length) {
+            break
+        }
+
+        if (input[i] === '{') {
+            let depth = 1
+
+            const start = ++i
+
+            while (i < input.length && depth > 0) {
+                if (input[i] === '\\') {
+                    i += 2
+
+                    continue
+                }
+
+                if (input[i] === '{') {
+                    depth++
+                } else if (input[i] === '}') {
+                    depth--
+                }
+
+                i++
+            }
+
+            if (depth > 0) {
+                throw new ProfileFormatError('Unbalanced braces')
+            }
+
+            words.push(input.slice(start, i - 1))
+
+            continue
+        }
+
+        let word = ''
+
+        const quoted = input[i] === '"'
+
+        if (quoted) {
+            i++
+        }
+
+        while (i < input.length && (quoted ? input[i] !== '"' : !isSpace(input[i]))) {
+            if (input[i] === '\\' && i + 1 < input.length) {
+                i++
+
+                word += input[i] === 'n' ? '\n' : input[i] === 't' ? '\t' : input[i]
+            } else {
+                word += input[i]
+            }
+
+            i++
+        }
+
+        if (quoted) {
+            if (i >= input.length) {
+                throw new ProfileFormatError('Unterminated quotes')
+            }
+
+            i++
+        }
+
+        words.push(word)
+    }
+
+    return words
+}
+
+function hasBalancedBraces(word: string) {
+    let depth = 0
+
+    for (let i = 0; i < word.length; i++) {
+        if (word[i] === '\\') {
+            i++
+        } else if (word[i] === '{') {
+            depth++
+        } else if (word[i] === '}' && --depth < 0) {
+            return false
+        }
+    }
+
+    return depth === 0 && !word.endsWith('\\')
+}
+
+export function formatTclWord(word: string) {
+    if (word === '') {
+        return '{}'
+    }
+
+    if (!/[\s{}"\\[\]$;]/.test(word)) {
+        return word
+    }
+
+    if (hasBalancedBraces(word)) {
+        return `{${word}}`
+    }
+
+    return word.replace(/[\s{}"\\[\]$;]/g, (char) =>
+        char === '\n' ? '\\n' : char === '\t' ? '\\t' : `\\${char}`
+    )
+}
+
+export function formatTclList(words: string[]) {
+    return words.map(formatTclWord).join(' ')
+}
+
+export function parseTclDict(input: string): Record<string, string> {
+    const words = parseTclList(input)
+
+    if (words.length % 2) {
+        throw new ProfileFormatError('Expected key-value pairs')
+    }
+
+    const dict: Record<string, string> = {}
+
+    for (let i = 0; i < words.length; i += 2) {
+        dict[words[i]] = words[i + 1]
+    }
+
+    return dict
+}
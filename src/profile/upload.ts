@@ -0,0 +1,50 @@
+import type CafeHubClient from '../index'
+import ProfileVerificationError from '../errors/ProfileVerificationError'
+import { CharAddr, Profile, UploadProfileOptions } from '../types'
+import { encodeProfile } from './encode'
+
+function isEqual(a: Uint8Array, b: Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+async function write(
+    client: CafeHubClient,
+    mac: string,
+    char: CharAddr,
+    data: Uint8Array,
+    { verify, ...options }: UploadProfileOptions
+) {
+    await client.gattWrite(mac, char, data, options)
+
+    if (!verify) {
+        return
+    }
+
+    const { data: actual } = await client.gattRead(mac, char, options)
+
+    if (!isEqual(data, actual.slice(0, data.length))) {
+        throw new ProfileVerificationError(char, data, actual)
+    }
+}
+
+// Writes the header, then every frame, in order. Nothing is sent if the profile is invalid.
+export default async function uploadProfile(
+    client: CafeHubClient,
+    mac: string,
+    profile: Profile,
+    { verify = true, ...options }: UploadProfileOptions = {}
+) {
+    const { header, frames } = encodeProfile(profile)
+
+    await write(client, mac, CharAddr.HeaderWrite, header, {
+        ...options,
+        verify,
+    })
+
+    for (const frame of frames) {
+        await write(client, mac, CharAddr.FrameWrite, frame, {
+            ...options,
+            verify,
+        })
+    }
+}
@@ -0,0 +1,140 @@
+import ProfileValidationError from '../errors/ProfileValidationError'
+import { FramePump, FrameSensor, FrameTransition, Profile } from '../types'
+
+export const ProfileLimits = {
+    MaxFrames: 20,
+    MaxPressure: 12,
+    MaxFlow: 8,
+    MinTemperature: 0,
+    MaxTemperature: 105,
+    // F8_1_7 tops out at 127 seconds.
+    MaxSeconds: 127,
+    // U10P0
+    MaxVolume: 1023,
+}
+
+function inRange(value: unknown, min: number, max: number) {
+    return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+}
+
+function oneOf(value: unknown, values: Record<string, string>) {
+    return Object.keys(values).some((key) => values[key] === value)
+}
+
+export function getProfileIssues(profile: Profile): string[] {
+    const issues: string[] = []
+
+    const {
+        frames,
+        preinfuseFrameCount = 0,
+        minimumPressure = 0,
+        maximumFlow = 0,
+        targetVolume = 0,
+    } = profile
+
+    if (!Array.isArray(frames) || !frames.length) {
+        return ['Profile needs at least one frame']
+    }
+
+    if (frames.length > ProfileLimits.MaxFrames) {
+        issues.push(`Profile can't have more than ${ProfileLimits.MaxFrames} frames`)
+    }
+
+    if (!inRange(preinfuseFrameCount, 0, frames.length) || !Number.isInteger(preinfuseFrameCount)) {
+        issues.push(`preinfuseFrameCount has to be an integer between 0 and ${frames.length}`)
+    }
+
+    if (!inRange(minimumPressure, 0, ProfileLimits.MaxPressure)) {
+        issues.push(`minimumPressure has to be between 0 and ${ProfileLimits.MaxPressure}`)
+    }
+
+    if (!inRange(maximumFlow, 0, ProfileLimits.MaxFlow)) {
+        issues.push(`maximumFlow has to be between 0 and ${ProfileLimits.MaxFlow}`)
+    }
+
+    if (!inRange(targetVolume, 0, ProfileLimits.MaxVolume)) {
+        issues.push(`targetVolume has to be between 0 and ${ProfileLimits.MaxVolume}`)
+    }
+
+    frames.forEach((frame, i) => {
+        const at = `Frame #${i}`
+
+        const maxTarget =
+            frame.pump === FramePump.Flow ? ProfileLimits.MaxFlow : ProfileLimits.MaxPressure
+
+        if (!oneOf(frame.pump, FramePump)) {
+            issues.push(`${at}: unknown pump "${frame.pump}"`)
+        }
+
+        if (!oneOf(frame.sensor, FrameSensor)) {
+            issues.push(`${at}: unknown sensor "${frame.sensor}"`)
+        }
+
+        if (!oneOf(frame.transition, FrameTransition)) {
+            issues.push(`${at}: unknown transition "${frame.transition}"`)
+        }
+
+        if (!inRange(frame.target, 0, maxTarget)) {
+            issues.push(`${at}: target has to be between 0 and ${maxTarget}`)
+        }
+
+        if (
+            !inRange(frame.temperature, ProfileLimits.MinTemperature, ProfileLimits.MaxTemperature)
+        ) {
+            issues.push(
+                `${at}: temperature has to be between ${ProfileLimits.MinTemperature} and ${ProfileLimits.MaxTemperature}`
+            )
+        }
+
+        if (!inRange(frame.seconds, 0, ProfileLimits.MaxSeconds)) {
+            issues.push(`${at}: seconds have to be between 0 and ${ProfileLimits.MaxSeconds}`)
+        }
+
+        if (frame.volume !== undefined && !inRange(frame.volume, 0, ProfileLimits.MaxVolume)) {
+            issues.push(`${at}: volume has to be between 0 and ${ProfileLimits.MaxVolume}`)
+        }
+
+        if (frame.exit) {
+            const maxExit =
+                frame.exit.type === FramePump.Flow
+                    ? ProfileLimits.MaxFlow
+                    : ProfileLimits.MaxPressure
+
+            if (!oneOf(frame.exit.type, FramePump)) {
+                issues.push(`${at}: unknown exit type "${frame.exit.type}"`)
+            }
+
+            if (frame.exit.condition !== 'over' && frame.exit.condition !== 'under') {
+                issues.push(`${at}: unknown exit condition "${frame.exit.condition}"`)
+            }
+
+            if (!inRange(frame.exit.value, 0, maxExit)) {
+                issues.push(`${at}: exit value has to be between 0 and ${maxExit}`)
+            }
+        }
+
+        if (frame.limiter) {
+            // Flow frames limit pressure and vice versa.
+            const maxLimit =
+                frame.pump === FramePump.Flow ? ProfileLimits.MaxPressure : ProfileLimits.MaxFlow
+
+            if (!inRange(frame.limiter.value, 0, maxLimit)) {
+                issues.push(`${at}: limiter value has to be between 0 and ${maxLimit}`)
+            }
+
+            if (!inRange(frame.limiter.range, 0, maxLimit)) {
+                issues.push(`${at}: limiter range has to be between 0 and ${maxLimit}`)
+            }
+        }
+    })
+
+    return issues
+}
+
+export function validateProfile(profile: Profile) {
+    const issues = getProfileIssues(profile)
+
+    if (issues.length) {
+        throw new ProfileValidationError(issues)
+    }
+}
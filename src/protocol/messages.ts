@@ -0,0 +1,122 @@
+import {
+    ConnectionState,
+    InboundMessage,
+    MessageType,
+    RawMessage,
+    ResponseMessage,
+    Schema,
+    Update,
+    UpdateType,
+} from '../types'
+import { arrayOf, either, integer, object, oneOf, optional, pattern, string } from './schema'
+
+const MAC = pattern(/^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/i, 'a MAC address')
+
+// 16-bit, 32-bit or full 128-bit UUIDs.
+const UUID = pattern(
+    /^([0-9a-f]{4}|[0-9a-f]{8}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i,
+    'a UUID'
+)
+
+const Base64 = pattern(
+    /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/,
+    'base64-encoded data'
+)
+
+const Id = integer({ min: 0 })
+
+const ResponseErrorSchema = object({
+    eid: integer(),
+    errmsg: string(),
+})
+
+function update(type: UpdateType, results: Schema) {
+    return object({
+        id: Id,
+        update: oneOf([type]),
+        results,
+    })
+}
+
+const UpdateSchemas: Record<UpdateType, Schema> = {
+    [UpdateType.ScanResult]: update(
+        UpdateType.ScanResult,
+        either(
+            object({
+                MAC,
+                Name: string(),
+                UUIDs: arrayOf(UUID),
+            }),
+            // An empty result ends the scan.
+            object({
+                MAC: oneOf([undefined]),
+            })
+        )
+    ),
+    [UpdateType.GATTNotify]: update(
+        UpdateType.GATTNotify,
+        object({
+            MAC,
+            Char: UUID,
+            Data: Base64,
+        })
+    ),
+    [UpdateType.ConnectionState]: update(
+        UpdateType.ConnectionState,
+        object({
+            MAC,
+            CState: oneOf(ConnectionState),
+            UUIDs: optional(arrayOf(UUID)),
+        })
+    ),
+    [UpdateType.ExecutionError]: update(UpdateType.ExecutionError, ResponseErrorSchema),
+}
+
+const ResponseSchema = object({
+    id: Id,
+    error: ResponseErrorSchema,
+    results: optional(
+        object({
+            Data: optional(Base64),
+        })
+    ),
+})
+
+// Lists everything that's wrong with a message received from the hub. Checks the whole shape
+// of `Update` and `ResponseMessage` messages, including MAC addresses, UUIDs, base64 data and
+// enum values.
+export function getMessageIssues(msg: unknown): string[] {
+    if (msg !== Object(msg) || Array.isArray(msg)) {
+        return ['Message has to be an object']
+    }
+
+    const { type, update: updateType } = msg as RawMessage
+
+    if (type === MessageType.Response) {
+        return ResponseSchema(msg, '')
+    }
+
+    if (type !== MessageType.Update) {
+        return [`Unexpected message type ${JSON.stringify(type)}`]
+    }
+
+    const schema = UpdateSchemas[updateType as UpdateType]
+
+    if (!schema) {
+        return [`Unknown update ${JSON.stringify(updateType)}`]
+    }
+
+    return schema(msg, '')
+}
+
+export function isInboundMessage(msg: unknown): msg is InboundMessage {
+    return getMessageIssues(msg).length === 0
+}
+
+export function isValidUpdate(msg: unknown): msg is Update {
+    return (msg as RawMessage)?.type === MessageType.Update && isInboundMessage(msg)
+}
+
+export function isValidResponse(msg: unknown): msg is ResponseMessage {
+    return (msg as RawMessage)?.type === MessageType.Response && isInboundMessage(msg)
+}
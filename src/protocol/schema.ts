@@ -0,0 +1,95 @@
+import { Schema } from '../types'
+
+function describe(value: unknown) {
+    if (value === null) {
+        return 'null'
+    }
+
+    if (Array.isArray(value)) {
+        return 'array'
+    }
+
+    return typeof value
+}
+
+export function string(): Schema {
+    return (value, path) => (typeof value === 'string' ? [] : [`${path} has to be a string`])
+}
+
+export function integer({ min = -Infinity }: { min?: number } = {}): Schema {
+    return (value, path) =>
+        typeof value === 'number' && Number.isInteger(value) && value >= min
+            ? []
+            : [`${path} has to be an integer${min > -Infinity ? ` >= ${min}` : ''}`]
+}
+
+export function pattern(re: RegExp, what: string): Schema {
+    return (value, path) =>
+        typeof value === 'string' && re.test(value)
+            ? []
+            : [`${path} has to be ${what}, got ${JSON.stringify(value)}`]
+}
+
+export function oneOf(values: Record<string, unknown> | unknown[]): Schema {
+    const allowed = Array.isArray(values) ? values : Object.keys(values).map((key) => values[key])
+
+    return (value, path) =>
+        allowed.indexOf(value) !== -1
+            ? []
+            : [`${path} has to be one of ${allowed.map((v) => JSON.stringify(v)).join(', ')}`]
+}
+
+export function arrayOf(item: Schema): Schema {
+    return (value, path) => {
+        if (!Array.isArray(value)) {
+            return [`${path} has to be an array, got ${describe(value)}`]
+        }
+
+        const issues: string[] = []
+
+        value.forEach((v, i) => void issues.push(...item(v, `${path}[${i}]`)))
+
+        return issues
+    }
+}
+
+// Keys that are missing from `value` are checked as `undefined`. Wrap them in `optional` to
+// allow that. Unknown keys are fine, the hub may add fields at any time.
+export function object(shape: Record<string, Schema>): Schema {
+    return (value, path) => {
+        if (value !== Object(value) || Array.isArray(value)) {
+            return [`${path} has to be an object, got ${describe(value)}`]
+        }
+
+        const record = value as Record<string, unknown>
+
+        const issues: string[] = []
+
+        Object.keys(shape).forEach((key) => {
+            issues.push(...shape[key](record[key], path ? `${path}.${key}` : key))
+        })
+
+        return issues
+    }
+}
+
+export function optional(schema: Schema): Schema {
+    return (value, path) => (value === undefined ? [] : schema(value, path))
+}
+
+// Passes if any of `schemas` does. Reports the issues of the last one otherwise.
+export function either(...schemas: Schema[]): Schema {
+    return (value, path) => {
+        let issues: string[] = []
+
+        for (const schema of schemas) {
+            issues = schema(value, path)
+
+            if (!issues.length) {
+                return []
+            }
+        }
+
+        return issues
+    }
+}
@@ -0,0 +1,6 @@
+// Lets tests import fixtures as text (`./fixture.tcl?raw`), which vite supports out of the box.
+declare module '*?raw' {
+    const content: string
+
+    export default content
+}
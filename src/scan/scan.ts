@@ -0,0 +1,137 @@
+import { EventEmitter } from 'events'
+import type CafeHubClient from '../index'
+import AbortError from '../errors/AbortError'
+import {
+    Device,
+    isScanResultUpdate,
+    isUpdateMessage,
+    RequestCommand,
+    ScanOptions,
+    ScanSession,
+} from '../types'
+import eventIterator from '../utils/eventIterator'
+
+const DefaultTimeout = 5000
+
+// Extra time the hub gets to report the end of the scan.
+const GracePeriod = 5000
+
+function matches(device: Device, { nameFilter, serviceUUIDs }: ScanOptions) {
+    if (typeof nameFilter === 'string' && device.Name !== nameFilter) {
+        return false
+    }
+
+    if (nameFilter instanceof RegExp && !nameFilter.test(device.Name)) {
+        return false
+    }
+
+    if (!serviceUUIDs) {
+        return true
+    }
+
+    const uuids = device.UUIDs.map((uuid) => uuid.toLowerCase())
+
+    return serviceUUIDs.some((uuid) => uuids.indexOf(uuid.toLowerCase()) !== -1)
+}
+
+// Runs a hub scan and reports what it finds. The scan is over once the hub sends its empty
+// closing result.
+export default function scan(client: CafeHubClient, options: ScanOptions = {}): ScanSession {
+    const { timeout = DefaultTimeout, signal } = options
+
+    const found = new Map<string, Device>()
+
+    const events = new EventEmitter()
+
+    const iterator = eventIterator<Device>(events, 'device', {
+        signal,
+        endEvent: 'end',
+    })
+
+    const devices = new Promise<Device[]>((resolve, reject) => {
+        function onAbort() {
+            reject(new AbortError())
+
+            events.emit('end')
+        }
+
+        if (signal?.aborted) {
+            return void onAbort()
+        }
+
+        signal?.addEventListener('abort', onAbort)
+
+        client
+            .sendRequest(
+                {
+                    command: RequestCommand.Scan,
+                    params: {
+                        Timeout: Math.ceil(timeout / 1000),
+                    },
+                },
+                {
+                    timeout: timeout + GracePeriod,
+                    signal,
+                    // Sees every reply to the scan, not just the last one.
+                    resolveIf(msg) {
+                        if (!isUpdateMessage(msg) || !isScanResultUpdate(msg)) {
+                            return false
+                        }
+
+                        if (!msg.results.MAC) {
+                            return true
+                        }
+
+                        // The client has already merged the result into what it knows.
+                        const device = client.getDevice(msg.results.MAC)
+
+                        if (device && matches(device, options)) {
+                            if (!found.has(device.MAC)) {
+                                events.emit('device', device)
+                            }
+
+                            found.set(device.MAC, device)
+                        }
+
+                        return false
+                    },
+                }
+            )
+            .then(
+                () => void resolve([...found.values()]),
+                (e) => void reject(e)
+            )
+            .then(() => {
+                signal?.removeEventListener('abort', onAbort)
+
+                events.emit('end')
+            })
+    })
+
+    // Failures reach whoever iterates or awaits `devices`. Nobody has to.
+    devices.catch(() => void 0)
+
+    return {
+        devices,
+        [Symbol.asyncIterator]: () => ({
+            async next() {
+                const result = await iterator.next()
+
+                if (result.done) {
+                    // Rethrows what ended the scan, if anything.
+                    await devices
+                }
+
+                return result
+            },
+            return() {
+                return iterator.return
+                    ? iterator.return()
+                    : Promise.resolve({
+                          value: undefined,
+                          done: true,
+                      })
+            },
+        }),
+    }
+}
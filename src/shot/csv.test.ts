@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { Shot } from '../types'
+import shotCsv from './fixtures/shot.csv?raw'
+import shotJson from './fixtures/shot.json?raw'
+import { serializeShotCsv } from './csv'
+
+describe('CSV shot export', () => {
+    it('matches the golden file', () => {
+        expect(serializeShotCsv(JSON.parse(shotJson))).toBe(shotCsv)
+    })
+
+    it('falls back to the number for unknown substates', () => {
+        const shot: Shot = JSON.parse(shotJson)
+
+        const csv = serializeShotCsv({
+            ...shot,
+            samples: [
+                {
+                    ...shot.samples[0],
+                    substate: 99,
+                },
+            ],
+        })
+
+        expect(csv.split('\n')[1]).toBe('0,99,0,0.063,0,88.25,89.996,0,8,88,88,0')
+    })
+
+    it('writes just the header for a shot without samples', () => {
+        expect(
+            serializeShotCsv({
+                ...JSON.parse(shotJson),
+                samples: [],
+            })
+        ).toBe(`${shotCsv.split('\n')[0]}\n`)
+    })
+})
@@ -0,0 +1,31 @@
+import { MachineSubstate, Shot, ShotSamplePoint } from '../types'
+
+const Columns: [string, (point: ShotSamplePoint) => number | string][] = [
+    ['elapsed', ({ elapsed }) => elapsed / 1000],
+    ['substate', ({ substate }) => MachineSubstate[substate] ?? substate],
+    ['frame', ({ frameNumber }) => frameNumber],
+    ['pressure', ({ groupPressure }) => groupPressure],
+    ['flow', ({ groupFlow }) => groupFlow],
+    ['mix_temp', ({ mixTemp }) => mixTemp],
+    ['head_temp', ({ headTemp }) => headTemp],
+    ['set_pressure', ({ setGroupPressure }) => setGroupPressure],
+    ['set_flow', ({ setGroupFlow }) => setGroupFlow],
+    ['set_mix_temp', ({ setMixTemp }) => setMixTemp],
+    ['set_head_temp', ({ setHeadTemp }) => setHeadTemp],
+    ['volume', ({ volume }) => volume],
+]
+
+function formatCell(value: number | string) {
+    return typeof value === 'number' ? String(Math.round(value * 1000) / 1000) : value
+}
+
+// One row per sample, times in seconds. Values never contain commas or quotes so nothing
+// needs escaping.
+export function serializeShotCsv({ samples }: Shot) {
+    const rows = [
+        Columns.map(([name]) => name),
+        ...samples.map((point) => Columns.map(([, get]) => formatCell(get(point)))),
+    ]
+
+    return rows.map((row) => `${row.join(',')}\n`).join('')
+}
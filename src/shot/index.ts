@@ -0,0 +1,2 @@
+export { serializeShotCsv } from './csv'
+export { serializeVisualizerShot, toVisualizerShot } from './visualizer'
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import londiniumJson from '../profile/fixtures/londinium.json?raw'
+import { parseJsonProfile, serializeJsonProfile } from '../profile/json'
+import { ShotMetadata } from '../types'
+import shotJson from './fixtures/shot.json?raw'
+import visualizerJson from './fixtures/visualizer.json?raw'
+import { serializeVisualizerShot, toVisualizerShot } from './visualizer'
+
+const Meta: ShotMetadata = {
+    profileTitle: 'Londinium',
+    dose: 18,
+    yield: 36.4,
+    beanBrand: 'Square Mile',
+    beanType: 'Red Brick',
+    grinderModel: 'Niche Zero',
+    grinderSetting: '14',
+    notes: 'Sweet, a little thin',
+    enjoyment: 80,
+}
+
+describe('Visualizer shot export', () => {
+    it('matches the golden file', () => {
+        expect(JSON.parse(serializeVisualizerShot(JSON.parse(shotJson), Meta))).toEqual(
+            JSON.parse(visualizerJson)
+        )
+    })
+
+    it('fills in blanks for missing metadata', () => {
+        const { profile, meta } = toVisualizerShot(JSON.parse(shotJson))
+
+        expect(profile).toEqual({
+            title: '',
+        })
+
+        expect(meta).toEqual({
+            bean: {
+                brand: '',
+                type: '',
+            },
+            shot: {
+                enjoyment: 0,
+                notes: '',
+            },
+            grinder: {
+                model: '',
+                setting: '',
+            },
+            in: 0,
+            out: 0,
+            time: 28.4,
+        })
+    })
+
+    describe('with a profile', () => {
+        const profile = parseJsonProfile(londiniumJson)
+
+        it('embeds it in de1app JSON', () => {
+            expect(toVisualizerShot(JSON.parse(shotJson), { profile }).profile).toEqual(
+                JSON.parse(serializeJsonProfile(profile))
+            )
+        })
+
+        it('prefers the given title over the profile’s', () => {
+            const shot = toVisualizerShot(JSON.parse(shotJson), {
+                profile,
+                profileTitle: 'Londinium (slower decline)',
+            })
+
+            expect(shot.profile).toEqual({
+                ...JSON.parse(serializeJsonProfile(profile)),
+                title: 'Londinium (slower decline)',
+            })
+        })
+    })
+})
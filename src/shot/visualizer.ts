@@ -0,0 +1,79 @@
+import { serializeJsonProfile } from '../profile/json'
+import { Shot, ShotMetadata } from '../types'
+
+// de1app marks frame changes with a series that flips between these two values.
+const StateChange = 10000000
+
+function round(value: number, digits = 2) {
+    const factor = 10 ** digits
+
+    return Math.round(value * factor) / factor
+}
+
+// Turns a recorded shot into the JSON (version 2) shot format de1app writes and Visualizer
+// (visualizer.coffee) accepts for uploads.
+export function toVisualizerShot({ startedAt, endedAt, samples }: Shot, meta: ShotMetadata = {}) {
+    let stateChange = -StateChange
+
+    const stateChanges = samples.map(({ frameNumber }, i) => {
+        if (i && frameNumber !== samples[i - 1].frameNumber) {
+            stateChange = -stateChange
+        }
+
+        return stateChange
+    })
+
+    const duration = round((endedAt - startedAt) / 1000, 1)
+
+    return {
+        version: 2,
+        clock: Math.round(startedAt / 1000),
+        date: new Date(startedAt).toISOString(),
+        timestamp: Math.round(startedAt / 1000),
+        elapsed: samples.map(({ elapsed }) => round(elapsed / 1000, 3)),
+        pressure: {
+            pressure: samples.map(({ groupPressure }) => round(groupPressure)),
+            goal: samples.map(({ setGroupPressure }) => round(setGroupPressure)),
+        },
+        flow: {
+            flow: samples.map(({ groupFlow }) => round(groupFlow)),
+            goal: samples.map(({ setGroupFlow }) => round(setGroupFlow)),
+        },
+        temperature: {
+            basket: samples.map(({ headTemp }) => round(headTemp)),
+            mix: samples.map(({ mixTemp }) => round(mixTemp)),
+            goal: samples.map(({ setHeadTemp }) => round(setHeadTemp)),
+        },
+        totals: {
+            water_dispensed: samples.map(({ volume }) => round(volume, 1)),
+        },
+        state_change: stateChanges,
+        profile: meta.profile
+            ? {
+                  ...JSON.parse(serializeJsonProfile(meta.profile)),
+                  title: meta.profileTitle ?? meta.profile.title,
+              }
+            : { title: meta.profileTitle || '' },
+        meta: {
+            bean: {
+                brand: meta.beanBrand || '',
+                type: meta.beanType || '',
+            },
+            shot: {
+                enjoyment: meta.enjoyment || 0,
+                notes: meta.notes || '',
+            },
+            grinder: {
+                model: meta.grinderModel || '',
+                setting: meta.grinderSetting || '',
+            },
+            in: meta.dose || 0,
+            out: meta.yield || 0,
+            time: duration,
+        },
+    }
+}
+
+export function serializeVisualizerShot(shot: Shot, meta?: ShotMetadata) {
+    return JSON.stringify(toVisualizerShot(shot, meta))
+}
@@ -0,0 +1,291 @@
+import {
+    ConnectionState,
+    MessageType,
+    RawMessage,
+    RequestCommand,
+    RequestMessage,
+    ResponseError,
+    UpdateType,
+    WebSocketLike,
+} from '../types'
+import fromBase64 from '../utils/fromBase64'
+import toBase64 from '../utils/toBase64'
+import MockWebSocket from './MockWebSocket'
+import { MockCafeHubOptions, MockDevice, MockFailure } from './types'
+
+const NoError: ResponseError = {
+    eid: 0,
+    errmsg: '',
+}
+
+function key(mac: string, char: string) {
+    return `${mac}/${char.toLowerCase()}`
+}
+
+// A scriptable in-process stand-in for a CafeHub server. Hand its `webSocketFactory` to
+// `CafeHubClient` and it speaks the REQ/RESP/UPDATE protocol to it.
+export default class MockCafeHub {
+    latency: number
+
+    scanDuration: number
+
+    // When `false`, new sockets get closed before they open, like an unreachable hub.
+    online = true
+
+    // When `true`, nothing reaches the sockets and they don't close either, like a dead link.
+    silent = false
+
+    readonly requests: RequestMessage[] = []
+
+    private readonly sockets = new Set<MockWebSocket>()
+
+    private readonly devices = new Map<string, MockDevice>()
+
+    private readonly connected = new Set<string>()
+
+    private readonly notifying = new Set<string>()
+
+    private readonly failures: MockFailure[] = []
+
+    constructor({ latency = 0, scanDuration = 0 }: MockCafeHubOptions = {}) {
+        this.latency = latency
+
+        this.scanDuration = scanDuration
+    }
+
+    webSocketFactory = (url: string): WebSocketLike => {
+        const socket: MockWebSocket = new MockWebSocket(url, {
+            onSend: (data) => void this.onRequest(socket, data),
+        })
+
+        setTimeout(() => {
+            if (!this.online) {
+                return void socket.drop(1006)
+            }
+
+            this.sockets.add(socket)
+
+            socket.open()
+        }, this.latency)
+
+        return socket
+    }
+
+    addDevice(device: MockDevice) {
+        this.devices.set(device.mac, device)
+
+        device.attach?.((char, data) => void this.notify(device.mac, char, data))
+    }
+
+    removeDevice(mac: string) {
+        this.devices.delete(mac)
+
+        this.connected.delete(mac)
+    }
+
+    isConnected(mac: string) {
+        return this.connected.has(mac)
+    }
+
+    isNotifying(mac: string, char: string) {
+        return this.notifying.has(key(mac, char))
+    }
+
+    // Makes the next request (of the given command, if any) fail with `error`.
+    failNext(error: ResponseError, command?: RequestCommand) {
+        this.failures.push({
+            command,
+            error,
+        })
+    }
+
+    // Simulates losing the hub. Its BLE sessions go away with the sockets.
+    dropConnections(code = 1006) {
+        this.sockets.forEach((socket) => void socket.drop(code))
+
+        this.sockets.clear()
+
+        this.connected.clear()
+
+        this.notifying.clear()
+    }
+
+    // Pushes a `GATTNotify` update to every socket, as long as notifications are enabled.
+    notify(mac: string, char: string, data: Uint8Array) {
+        if (!this.isNotifying(mac, char)) {
+            return
+        }
+
+        this.broadcast({
+            id: 0,
+            type: MessageType.Update,
+            update: UpdateType.GATTNotify,
+            results: {
+                MAC: mac,
+                Char: char,
+                Data: toBase64(data),
+            },
+        })
+    }
+
+    private broadcast(msg: RawMessage) {
+        this.sockets.forEach((socket) => void this.send(socket, msg))
+    }
+
+    private send(socket: MockWebSocket, msg: RawMessage, after = 0) {
+        setTimeout(() => {
+            if (!this.silent) {
+                socket.receive(JSON.stringify(msg))
+            }
+        }, this.latency + after)
+    }
+
+    private respond(socket: MockWebSocket, id: number, results: unknown, error = NoError) {
+        this.send(socket, {
+            id,
+            type: MessageType.Response,
+            error,
+            results,
+        })
+    }
+
+    private update(socket: MockWebSocket, id: number, update: UpdateType, results: unknown) {
+        this.send(socket, {
+            id,
+            type: MessageType.Update,
+            update,
+            results,
+        })
+    }
+
+    private connectionState(
+        socket: MockWebSocket,
+        id: number,
+        mac: string,
+        state: ConnectionState
+    ) {
+        this.update(socket, id, UpdateType.ConnectionState, {
+            MAC: mac,
+            CState: state,
+            UUIDs: this.devices.get(mac)?.uuids || [],
+        })
+    }
+
+    private takeFailure(command: RequestCommand) {
+        const index = this.failures.findIndex((f) => !f.command || f.command === command)
+
+        if (index === -1) {
+            return
+        }
+
+        return this.failures.splice(index, 1)[0]
+    }
+
+    private onRequest(socket: MockWebSocket, data: string) {
+        const req = JSON.parse(data) as RequestMessage<Record<string, unknown>>
+
+        this.requests.push(req)
+
+        const { id, command, params } = req
+
+        const failure = this.takeFailure(command)
+
+        if (failure) {
+            return void this.respond(socket, id, {}, failure.error)
+        }
+
+        const mac = String(params.MAC)
+
+        const char = String(params.Char)
+
+        const device = this.devices.get(mac)
+
+        try {
+            switch (command) {
+                case RequestCommand.Scan:
+                    return void this.scan(socket, id)
+                case RequestCommand.GATTConnect:
+                    this.connectionState(socket, id, mac, ConnectionState.Init)
+
+                    if (!device) {
+                        return void this.connectionState(
+                            socket,
+                            id,
+                            mac,
+                            ConnectionState.Disconnected
+                        )
+                    }
+
+                    this.connected.add(mac)
+
+                    return void this.connectionState(socket, id, mac, ConnectionState.Connected)
+                case RequestCommand.GATTDisconnect:
+                    this.connected.delete(mac)
+
+                    return void this.connectionState(socket, id, mac, ConnectionState.Disconnected)
+                case RequestCommand.GATTRead:
+                    return void this.respond(socket, id, {
+                        Data: toBase64(this.connectedDevice(mac).read(char)),
+                    })
+                case RequestCommand.GATTWrite:
+                    this.connectedDevice(mac).write(char, fromBase64(String(params.Data)))
+
+                    return void this.respond(socket, id, {})
+                case RequestCommand.GATTSetNotify:
+                    this.connectedDevice(mac)
+
+                    if (params.Enable) {
+                        this.notifying.add(key(mac, char))
+                    } else {
+                        this.notifying.delete(key(mac, char))
+                    }
+
+                    return void this.respond(socket, id, {})
+                default:
+                    throw new Error(`Unknown command: ${command}`)
+            }
+        } catch (e) {
+            this.respond(
+                socket,
+                id,
+                {},
+                {
+                    eid: 1,
+                    errmsg: e instanceof Error ? e.message : String(e),
+                }
+            )
+        }
+    }
+
+    private connectedDevice(mac: string) {
+        const device = this.devices.get(mac)
+
+        if (!device || !this.connected.has(mac)) {
+            throw new Error(`${mac} is not connected`)
+        }
+
+        return device
+    }
+
+    private scan(socket: MockWebSocket, id: number) {
+        this.devices.forEach(({ mac, name, uuids }) => {
+            this.update(socket, id, UpdateType.ScanResult, {
+                MAC: mac,
+                Name: name,
+                UUIDs: uuids,
+            })
+        })
+
+        // An empty result marks the end of the scan.
+        this.send(
+            socket,
+            {
+                id,
+                type: MessageType.Update,
+                update: UpdateType.ScanResult,
+                results: {},
+            },
+            this.scanDuration
+        )
+    }
+}
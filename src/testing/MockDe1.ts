@@ -0,0 +1,222 @@
+import { decode, encode } from '../codecs/index'
+import {
+    HeaderLength,
+    MapSuccess,
+    parseFirmwareHeader,
+    parseFirmwareImage,
+} from '../firmware/image'
+import {
+    CharAddr,
+    CharValues,
+    De1ServiceUUID,
+    FWMapRequest,
+    MachineState,
+    MachineSubstate,
+    ShotSample,
+} from '../types'
+import { MockDevice } from './types'
+
+// Registers start at 0x800000, the firmware image goes below.
+const FirmwareRegionEnd = 0x800000
+
+// A DE1 that keeps its characteristics in memory. Writing `RequestedState` moves it into that
+// state and reports it through `StateInfo`. Writing `ReadFromMMR` reports the requested memory
+// through a `ReadFromMMR` notification. `FWMapRequest` erases the firmware region, or verifies
+// the image written there, and answers with a `FWMapRequest` notification. Everything else is
+// stored as is.
+export default class MockDe1 implements MockDevice {
+    readonly mac: string
+
+    readonly name: string
+
+    readonly uuids = [De1ServiceUUID]
+
+    readonly writes: { char: string; data: Uint8Array }[] = []
+
+    private readonly values = new Map<string, Uint8Array>()
+
+    // Memory-mapped region, byte by byte.
+    private readonly memory = new Map<number, number>()
+
+    private notify: undefined | ((char: string, data: Uint8Array) => void)
+
+    constructor(mac = 'D9:B2:48:00:00:01', { name = 'DE1' }: { name?: string } = {}) {
+        this.mac = mac
+
+        this.name = name
+
+        this.store(CharAddr.Versions, {
+            ble: {
+                apiVersion: 4,
+                release: 0,
+                commits: 0,
+                changes: 0,
+                sha: 0,
+            },
+            fw: {
+                apiVersion: 4,
+                release: 0,
+                commits: 0,
+                changes: 0,
+                sha: 0,
+            },
+        })
+
+        this.store(CharAddr.StateInfo, {
+            state: MachineState.Sleep,
+            substate: MachineSubstate.NoState,
+        })
+
+        this.store(CharAddr.Temperatures, {
+            waterHeater: 85,
+            steamHeater: 140,
+            groupHead: 88,
+            coldWater: 20,
+            targetWaterHeater: 85,
+            targetSteamHeater: 140,
+            targetGroupHead: 88,
+            targetColdWater: 0,
+        })
+
+        this.store(CharAddr.ShotSettings, {
+            steamSettings: 0,
+            targetSteamTemp: 160,
+            targetSteamLength: 90,
+            targetHotWaterTemp: 85,
+            targetHotWaterVol: 120,
+            targetHotWaterLength: 60,
+            targetEspressoVol: 36,
+            targetGroupTemp: 93,
+        })
+
+        this.store(CharAddr.WaterLevels, {
+            level: 30,
+            startFillLevel: 5,
+        })
+    }
+
+    attach(notify: (char: string, data: Uint8Array) => void) {
+        this.notify = notify
+    }
+
+    read(char: string) {
+        const data = this.values.get(char)
+
+        if (!data) {
+            throw new Error(`${char} is not readable`)
+        }
+
+        return data
+    }
+
+    write(char: string, data: Uint8Array) {
+        this.writes.push({
+            char,
+            data,
+        })
+
+        if (char === CharAddr.RequestedState) {
+            return void this.setState(decode(CharAddr.RequestedState, data))
+        }
+
+        if (char === CharAddr.ReadFromMMR) {
+            const { length, address } = decode(CharAddr.ReadFromMMR, data)
+
+            return void this.set(CharAddr.ReadFromMMR, {
+                length,
+                address,
+                data: this.peek(address, (length + 1) * 4),
+            })
+        }
+
+        if (char === CharAddr.FWMapRequest) {
+            return void this.mapFirmware(decode(CharAddr.FWMapRequest, data))
+        }
+
+        if (char === CharAddr.WriteToMMR) {
+            const { length, address, data: bytes } = decode(CharAddr.WriteToMMR, data)
+
+            return void this.poke(address, bytes.slice(0, length))
+        }
+
+        this.values.set(char, data)
+    }
+
+    get<C extends CharAddr>(char: C): CharValues[C] {
+        return decode(char, this.read(char))
+    }
+
+    // Stores a value and notifies subscribers about it.
+    set<C extends CharAddr>(char: C, value: CharValues[C]) {
+        const data = this.store(char, value)
+
+        this.notify?.(char, data)
+    }
+
+    setState(state: MachineState, substate = MachineSubstate.NoState) {
+        this.set(CharAddr.StateInfo, {
+            state,
+            substate,
+        })
+    }
+
+    // Reads the memory-mapped region. Bytes that were never written are 0.
+    peek(address: number, length: number) {
+        return Uint8Array.from({ length }, (_, i) => this.memory.get(address + i) || 0)
+    }
+
+    poke(address: number, data: Uint8Array) {
+        data.forEach((byte, i) => void this.memory.set(address + i, byte))
+    }
+
+    // The firmware image written so far, up to the length its header claims.
+    getFirmware() {
+        const { byteCount } = parseFirmwareHeader(this.peek(0, HeaderLength))
+
+        return this.peek(0, HeaderLength + byteCount)
+    }
+
+    private mapFirmware({ fwToErase, fwToMap }: FWMapRequest) {
+        if (fwToErase) {
+            this.memory.forEach((_, address) => {
+                if (address < FirmwareRegionEnd) {
+                    this.memory.delete(address)
+                }
+            })
+
+            return void this.set(CharAddr.FWMapRequest, {
+                windowIncrement: 0,
+                fwToErase: 0,
+                fwToMap,
+                firstError: 0,
+            })
+        }
+
+        let firstError = MapSuccess
+
+        try {
+            parseFirmwareImage(this.getFirmware())
+        } catch (e) {
+            firstError = 0
+        }
+
+        this.set(CharAddr.FWMapRequest, {
+            windowIncrement: 0,
+            fwToErase: 0,
+            fwToMap,
+            firstError,
+        })
+    }
+
+    pushShotSample(sample: ShotSample) {
+        this.set(CharAddr.ShotSample, sample)
+    }
+
+    private store<C extends CharAddr>(char: C, value: CharValues[C]) {
+        const data = encode(char, value)
+
+        this.values.set(char, data)
+
+        return data
+    }
+}
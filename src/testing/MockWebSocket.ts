@@ -0,0 +1,82 @@
+import { EventEmitter } from 'events'
+import { CloseEventLike, MessageEventLike, WebSocketLike } from '../types'
+
+// Client end of an in-process socket. The hub drives it through `open`, `receive` and `drop`.
+export default class MockWebSocket implements WebSocketLike {
+    readonly url: string
+
+    private readonly events = new EventEmitter()
+
+    private readonly onSend: (data: string) => void
+
+    private closed = false
+
+    constructor(url: string, { onSend }: { onSend: (data: string) => void }) {
+        this.url = url
+
+        this.onSend = onSend
+    }
+
+    isClosed() {
+        return this.closed
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    addEventListener(type: string, listener: (e: any) => void) {
+        this.events.on(type, listener)
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    removeEventListener(type: string, listener: (e: any) => void) {
+        this.events.off(type, listener)
+    }
+
+    send(data: string) {
+        if (this.closed) {
+            throw new Error('Socket is closed')
+        }
+
+        this.onSend(data)
+    }
+
+    close(code = 1000, reason = '') {
+        this.drop(code, reason)
+    }
+
+    open() {
+        if (!this.closed) {
+            this.events.emit('open', {})
+        }
+    }
+
+    receive(data: string) {
+        if (!this.closed) {
+            const e: MessageEventLike = {
+                data,
+            }
+
+            this.events.emit('message', e)
+        }
+    }
+
+    drop(code = 1006, reason = '') {
+        if (this.closed) {
+            return
+        }
+
+        this.closed = true
+
+        const e: CloseEventLike = {
+            code,
+            reason,
+            wasClean: code === 1000,
+        }
+
+        // Real sockets never report closing synchronously.
+        setTimeout(() => {
+            this.events.emit('close', e)
+
+            this.events.removeAllListeners()
+        })
+    }
+}
@@ -0,0 +1,4 @@
+export { default as MockCafeHub } from './MockCafeHub'
+export { default as MockDe1 } from './MockDe1'
+export { default as MockWebSocket } from './MockWebSocket'
+export * from './types'
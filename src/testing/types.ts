@@ -0,0 +1,21 @@
+import { RequestCommand, ResponseError } from '../types'
+
+export interface MockDevice {
+    readonly mac: string
+    readonly name: string
+    readonly uuids: string[]
+    // Lets the device push notifications through the hub it's been added to.
+    attach?: (notify: (char: string, data: Uint8Array) => void) => void
+    read: (char: string) => Uint8Array
+    write: (char: string, data: Uint8Array) => void
+}
+
+export interface MockCafeHubOptions {
+    latency?: number
+    scanDuration?: number
+}
+
+export interface MockFailure {
+    command?: RequestCommand
+    error: ResponseError
+}
@@ -0,0 +1,114 @@
+import {
+    CloseEventLike,
+    MessageEventLike,
+    TrafficEntry,
+    TrafficRecorderOptions,
+    WebSocketFactory,
+    WebSocketLike,
+} from '../types'
+import { serializeTraffic } from './format'
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never
+
+function defaultWebSocketFactory(url: string): WebSocketLike {
+    return new WebSocket(url)
+}
+
+// Records what goes through the sockets it makes: frames sent by the client (`out`), frames
+// it receives (`in`), and sockets opening and closing. Hand its `webSocketFactory` to
+// `CafeHubClient`.
+export default class TrafficRecorder {
+    private readonly entries: TrafficEntry[] = []
+
+    private readonly factory: WebSocketFactory
+
+    private readonly onEntry: undefined | ((entry: TrafficEntry) => void)
+
+    private readonly now: () => number
+
+    private startedAt: undefined | number
+
+    constructor({
+        webSocketFactory = defaultWebSocketFactory,
+        onEntry,
+        now = Date.now,
+    }: TrafficRecorderOptions = {}) {
+        this.factory = webSocketFactory
+
+        this.onEntry = onEntry
+
+        this.now = now
+    }
+
+    webSocketFactory = (url: string): WebSocketLike => {
+        const ws = this.factory(url)
+
+        ws.addEventListener('open', () => {
+            this.record({
+                type: 'open',
+                url,
+            })
+        })
+
+        ws.addEventListener('message', ({ data }: MessageEventLike) => {
+            this.record({
+                type: 'in',
+                data: String(data),
+            })
+        })
+
+        ws.addEventListener('close', ({ code, reason }: CloseEventLike) => {
+            this.record({
+                type: 'close',
+                code,
+                reason,
+            })
+        })
+
+        return {
+            url: ws.url,
+            send: (data: string) => {
+                ws.send(data)
+
+                this.record({
+                    type: 'out',
+                    data,
+                })
+            },
+            close: (code?: number, reason?: string) => void ws.close(code, reason),
+            addEventListener: (type, listener) => void ws.addEventListener(type, listener),
+            removeEventListener: (type, listener) => void ws.removeEventListener(type, listener),
+        }
+    }
+
+    getEntries() {
+        return this.entries.slice()
+    }
+
+    clear() {
+        this.entries.length = 0
+
+        this.startedAt = undefined
+    }
+
+    toString() {
+        return serializeTraffic(this.entries)
+    }
+
+    private record(entry: DistributiveOmit<TrafficEntry, 't'>) {
+        const now = this.now()
+
+        if (this.startedAt === undefined) {
+            this.startedAt = now
+        }
+
+        const recorded = {
+            t: now - this.startedAt,
+            ...entry,
+        } as TrafficEntry
+
+        this.entries.push(recorded)
+
+        this.onEntry?.(recorded)
+    }
+}
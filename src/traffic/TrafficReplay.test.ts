@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import CafeHubClient from '../index'
+import MockCafeHub from '../testing/MockCafeHub'
+import MockDe1 from '../testing/MockDe1'
+import { CharAddr, MachineState, RequestCommand, TrafficEntry } from '../types'
+import TrafficRecorder from './TrafficRecorder'
+import TrafficReplay from './TrafficReplay'
+
+const Url = 'ws://hub.local:8765'
+
+describe('TrafficReplay', () => {
+    let hub: MockCafeHub
+
+    let de1: MockDe1
+
+    let entries: TrafficEntry[]
+
+    let client: CafeHubClient
+
+    beforeEach(async () => {
+        hub = new MockCafeHub()
+
+        de1 = new MockDe1()
+
+        hub.addDevice(de1)
+
+        de1.setState(MachineState.Espresso)
+
+        const recorder = new TrafficRecorder({
+            webSocketFactory: hub.webSocketFactory,
+        })
+
+        const recording = new CafeHubClient({
+            webSocketFactory: recorder.webSocketFactory,
+        })
+
+        await recording.connect(Url)
+
+        await recording.gattConnect(de1.mac)
+
+        await recording.gattRead(de1.mac, CharAddr.StateInfo)
+
+        recording.teardown()
+
+        entries = recorder.getEntries()
+    })
+
+    afterEach(() => {
+        client?.teardown()
+
+        vi.restoreAllMocks()
+    })
+
+    it('replays a recorded session onto different request ids', async () => {
+        const replay = new TrafficReplay(entries, {
+            speed: Infinity,
+        })
+
+        let factory = hub.webSocketFactory
+
+        client = new CafeHubClient({
+            webSocketFactory: (url) => factory(url),
+        })
+
+        // Use up the ids the recording used.
+        await client.connect(Url)
+
+        await client.gattConnect(de1.mac)
+
+        client.teardown()
+
+        // The replay answers on its own; the hub would answer differently now.
+        de1.setState(MachineState.Idle)
+
+        factory = replay.webSocketFactory
+
+        await client.connect(Url)
+
+        await client.gattConnect(de1.mac)
+
+        const { data } = await client.gattRead(de1.mac, CharAddr.StateInfo)
+
+        expect(data[0]).toBe(MachineState.Espresso)
+
+        expect(replay.sent.map((frame) => JSON.parse(frame))).toMatchObject([
+            {
+                command: RequestCommand.GATTConnect,
+                id: 2,
+            },
+            {
+                command: RequestCommand.GATTRead,
+                id: 3,
+                params: {
+                    MAC: de1.mac,
+                    Char: CharAddr.StateInfo,
+                },
+            },
+        ])
+
+        expect(entries.filter(({ type }) => type === 'out')).toHaveLength(2)
+    })
+
+    it('leaves no abort listeners behind', async () => {
+        const add = vi.spyOn(AbortSignal.prototype, 'addEventListener')
+
+        const remove = vi.spyOn(AbortSignal.prototype, 'removeEventListener')
+
+        const replay = new TrafficReplay(entries, {
+            speed: Infinity,
+        })
+
+        client = new CafeHubClient({
+            webSocketFactory: replay.webSocketFactory,
+        })
+
+        await client.connect(Url)
+
+        await client.gattConnect(de1.mac)
+
+        await client.gattRead(de1.mac, CharAddr.StateInfo)
+
+        await replay.whenIdle()
+
+        // The spies report the signals as `this`.
+        const signals = add.mock.instances as unknown as AbortSignal[]
+
+        const listeners = new Map<unknown, Set<unknown>>()
+
+        add.mock.calls.forEach(([type, listener], i) => {
+            const signal = signals[i]
+
+            if (type === 'abort' && !signal.aborted) {
+                listeners.set(signal, (listeners.get(signal) || new Set()).add(listener))
+            }
+        })
+
+        remove.mock.calls.forEach(([, listener], i) => {
+            listeners.get(remove.mock.instances[i])?.delete(listener)
+        })
+
+        listeners.forEach((set) => void expect(set.size).toBe(0))
+    })
+
+    it('rejects pending waits when stopped', async () => {
+        const replay = new TrafficReplay(entries, {
+            speed: Infinity,
+        })
+
+        client = new CafeHubClient({
+            webSocketFactory: replay.webSocketFactory,
+        })
+
+        await client.connect(Url)
+
+        replay.stop()
+
+        await replay.whenIdle()
+
+        expect(replay.sent).toEqual([])
+    })
+})
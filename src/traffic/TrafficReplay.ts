@@ -0,0 +1,194 @@
+import AbortError from '../errors/AbortError'
+import MockWebSocket from '../testing/MockWebSocket'
+import { TrafficEntry, TrafficReplayOptions, WebSocketLike } from '../types'
+import delay from '../utils/delay'
+
+function getId(data: string): undefined | number {
+    try {
+        const { id } = JSON.parse(data)
+
+        return typeof id === 'number' ? id : undefined
+    } catch (e) {
+        return undefined
+    }
+}
+
+// Plays a recording back to a `CafeHubClient`. Every socket the client opens replays the next
+// recorded session (from an `open` entry to the next one). Inbound frames wait for the client
+// to send whatever it sent before them in the recording, and request ids get mapped onto the
+// ones the client actually uses, so replays don't depend on timing.
+export default class TrafficReplay {
+    // Frames the client sent, in order.
+    readonly sent: string[] = []
+
+    private readonly sessions: TrafficEntry[][] = []
+
+    private readonly speed: number
+
+    private readonly abortController = new AbortController()
+
+    private readonly ids = new Map<number, number>()
+
+    private onSent: undefined | (() => void)
+
+    private running = 0
+
+    private onIdle: (() => void)[] = []
+
+    constructor(entries: TrafficEntry[], { speed = 1 }: TrafficReplayOptions = {}) {
+        this.speed = speed
+
+        entries.forEach((entry) => {
+            if (entry.type === 'open') {
+                this.sessions.push([])
+            }
+
+            this.sessions[this.sessions.length - 1]?.push(entry)
+        })
+    }
+
+    webSocketFactory = (url: string): WebSocketLike => {
+        const socket: MockWebSocket = new MockWebSocket(url, {
+            onSend: (data) => {
+                this.sent.push(data)
+
+                this.onSent?.()
+            },
+        })
+
+        const session = this.sessions.shift()
+
+        this.running++
+
+        this.play(socket, session || []).then(
+            () => void this.settle(),
+            () => void this.settle()
+        )
+
+        return socket
+    }
+
+    // Resolves once every socket made so far has played its session.
+    whenIdle() {
+        return new Promise<void>((resolve) => {
+            if (this.running === 0) {
+                return void resolve()
+            }
+
+            this.onIdle.push(resolve)
+        })
+    }
+
+    stop() {
+        this.abortController.abort()
+    }
+
+    private settle() {
+        this.running--
+
+        if (this.running === 0) {
+            this.onIdle.splice(0).forEach((resolve) => void resolve())
+        }
+    }
+
+    private async play(socket: MockWebSocket, session: TrafficEntry[]) {
+        const { signal } = this.abortController
+
+        // Let the client attach its listeners.
+        await delay(0, { abortSignal: signal })
+
+        if (!session.length) {
+            return void socket.drop(1006)
+        }
+
+        let prevT = session[0].t
+
+        let expectedSent = this.sent.length
+
+        for (const entry of session) {
+            const wait = Math.max(0, entry.t - prevT) / this.speed
+
+            prevT = entry.t
+
+            if (wait > 0 && Number.isFinite(wait)) {
+                await delay(wait, { abortSignal: signal })
+            }
+
+            switch (entry.type) {
+                case 'open':
+                    socket.open()
+                    break
+                case 'out':
+                    await this.waitForSent(++expectedSent)
+
+                    this.mapId(entry.data, this.sent[expectedSent - 1])
+                    break
+                case 'in':
+                    socket.receive(this.rewriteId(entry.data))
+                    break
+                case 'close':
+                    socket.drop(entry.code, entry.reason)
+                    break
+                default:
+            }
+        }
+    }
+
+    private waitForSent(count: number) {
+        return new Promise<void>((resolve, reject) => {
+            const { signal } = this.abortController
+
+            // The signal outlives this wait, so its listener has to go either way.
+            const done = () => {
+                this.onSent = undefined
+
+                signal.removeEventListener('abort', check)
+            }
+
+            const check = () => {
+                if (signal.aborted) {
+                    done()
+
+                    return void reject(new AbortError())
+                }
+
+                if (this.sent.length >= count) {
+                    done()
+
+                    resolve()
+                }
+            }
+
+            this.onSent = check
+
+            signal.addEventListener('abort', check, { once: true })
+
+            check()
+        })
+    }
+
+    private mapId(recorded: string, actual: string) {
+        const from = getId(recorded)
+
+        const to = getId(actual)
+
+        if (from !== undefined && to !== undefined) {
+            this.ids.set(from, to)
+        }
+    }
+
+    private rewriteId(data: string) {
+        const id = getId(data)
+
+        const mapped = id === undefined ? undefined : this.ids.get(id)
+
+        if (mapped === undefined || mapped === id) {
+            return data
+        }
+
+        return JSON.stringify({
+            ...JSON.parse(data),
+            id: mapped,
+        })
+    }
+}
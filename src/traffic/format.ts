@@ -0,0 +1,57 @@
+import TrafficFormatError from '../errors/TrafficFormatError'
+import { TrafficEntry } from '../types'
+
+function isEntry(value: unknown): value is TrafficEntry {
+    if (value !== Object(value)) {
+        return false
+    }
+
+    const entry = value as Record<string, unknown>
+
+    if (typeof entry.t !== 'number') {
+        return false
+    }
+
+    switch (entry.type) {
+        case 'open':
+            return typeof entry.url === 'string'
+        case 'in':
+        case 'out':
+            return typeof entry.data === 'string'
+        case 'close':
+            return typeof entry.code === 'number' && typeof entry.reason === 'string'
+        default:
+            return false
+    }
+}
+
+export function formatTrafficEntry(entry: TrafficEntry) {
+    return JSON.stringify(entry)
+}
+
+// JSON lines: one entry per line, in order.
+export function serializeTraffic(entries: TrafficEntry[]) {
+    return entries.map((entry) => `${formatTrafficEntry(entry)}\n`).join('')
+}
+
+export function parseTraffic(input: string): TrafficEntry[] {
+    return input
+        .split('\n')
+        .map((line, i) => [line.trim(), i + 1] as const)
+        .filter(([line]) => line !== '')
+        .map(([line, lineNumber]) => {
+            let entry: unknown
+
+            try {
+                entry = JSON.parse(line)
+            } catch (e) {
+                throw new TrafficFormatError(`Line ${lineNumber}: invalid JSON`)
+            }
+
+            if (!isEntry(entry)) {
+                throw new TrafficFormatError(`Line ${lineNumber}: not a traffic entry`)
+            }
+
+            return entry
+        })
+}
@@ -0,0 +1,3 @@
+export { formatTrafficEntry, parseTraffic, serializeTraffic } from './format'
+export { default as TrafficRecorder } from './TrafficRecorder'
+export { default as TrafficReplay } from './TrafficReplay'
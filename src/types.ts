@@ -48,6 +48,7 @@ export interface UpdateMessage<T = unknown, R = unknown> extends Message {
     results: R
 }
 
+// The `is*` guards below only tell messages apart. `getMessageIssues` checks their shape.
 export function isMessage(msg: RawMessage): msg is Message {
     return typeof msg.id === 'number'
 }
@@ -59,7 +60,7 @@ export function isUpdateMessage(msg: RawMessage): msg is UpdateMessage {
 export interface Device {
     MAC: string
     Name: string
-    UUIDs: [string]
+    UUIDs: string[]
     connectionState: ConnectionState
 }
 
@@ -82,12 +83,12 @@ export function isGATTNotifyUpdate(msg: UpdateMessage): msg is GATTNotifyUpdate
     return msg.update === UpdateType.GATTNotify
 }
 
-type ConnectionStateUpdate = UpdateMessage<
+export type ConnectionStateUpdate = UpdateMessage<
     UpdateType.ConnectionState,
     {
         MAC: string
         CState: ConnectionState
-        UUIDs: [string]
+        UUIDs: string[]
     }
 >
 
@@ -95,12 +96,25 @@ export function isConnectionStateUpdate(msg: UpdateMessage): msg is ConnectionSt
     return msg.update === UpdateType.ConnectionState
 }
 
-interface ResponseError {
+// `GATTConnect` reports `INIT` first. Anything after that is the outcome.
+export function isConnectionOutcome(msg: ReplyMessage): msg is ConnectionStateUpdate {
+    return (
+        isUpdateMessage(msg) &&
+        isConnectionStateUpdate(msg) &&
+        msg.results.CState !== ConnectionState.Init
+    )
+}
+
+export interface ResponseError {
     eid: number
     errmsg: string
 }
 
-type ErrorUpdate = UpdateMessage<UpdateType.ExecutionError, ResponseError>
+export type ErrorUpdate = UpdateMessage<UpdateType.ExecutionError, ResponseError>
+
+export function isErrorUpdate(msg: UpdateMessage): msg is ErrorUpdate {
+    return msg.update === UpdateType.ExecutionError
+}
 
 export type Update = ScanResultUpdate | GATTNotifyUpdate | ConnectionStateUpdate | ErrorUpdate
 
@@ -116,45 +130,92 @@ interface GATTReadResult {
 
 export type GATTReadResponse = ResponseMessage<GATTReadResult>
 
+// `GATTReadResponse` with `Data` already decoded.
+export interface GATTReadReply extends GATTReadResponse {
+    data: Uint8Array
+}
+
+export function isResponseMessage(msg: RawMessage): msg is ResponseMessage {
+    return isMessage(msg) && msg.type === MessageType.Response
+}
+
+export function isResponseError(error: unknown): error is ResponseError {
+    return (
+        error === Object(error) &&
+        typeof (error as ResponseError).eid === 'number' &&
+        typeof (error as ResponseError).errmsg === 'string'
+    )
+}
+
+// The hub reports success with `eid` set to 0, anything else is a failure.
+export function isFailedResponse(msg: ResponseMessage): boolean {
+    return isResponseError(msg.error) && msg.error.eid !== 0
+}
+
+export type ReplyMessage = UpdateMessage | ResponseMessage
+
+// What the hub may send us, see `getMessageIssues`.
+export type InboundMessage = Update | ResponseMessage
+
+// Reports what's wrong with a value, one issue per entry. No issues means the value fits.
+// `path` locates the value in the message, e.g. `results.UUIDs[1]`.
+export type Schema = (value: unknown, path: string) => string[]
+
+export function getReplyError(msg: ReplyMessage): undefined | ResponseError {
+    if (isUpdateMessage(msg) && isErrorUpdate(msg)) {
+        return msg.results
+    }
+
+    if (isResponseMessage(msg) && isFailedResponse(msg)) {
+        return msg.error
+    }
+}
+
 interface Req<C, P> {
     command: C
     params: P
 }
 
-type ScanRequest = Req<
+export type ScanRequest = Req<
     RequestCommand.Scan,
     {
         Timeout: number
     }
 >
 
-type GATTConnectRequest = Req<
+export type GATTConnectRequest = Req<
     RequestCommand.GATTConnect,
     {
         MAC: string
     }
 >
 
-type GATTDisconnectRequest = Req<
+export type GATTDisconnectRequest = Req<
     RequestCommand.GATTDisconnect,
     {
         MAC: string
     }
 >
 
-type GATTReadRequest = Req<RequestCommand.GATTRead, Record<string, unknown>>
+export type GATTReadRequest = Req<
+    RequestCommand.GATTRead,
+    {
+        MAC: string
+        Char: string
+    }
+>
 
-type GATTWriteRequest = Req<
+export type GATTWriteRequest = Req<
     RequestCommand.GATTWrite,
     {
         MAC: string
         Char: string
-        Data: ArrayBufferLike
+        Data: Base64String
         RR: boolean
     }
 >
 
-type GATTSetNotifyRequest = Req<
+export type GATTSetNotifyRequest = Req<
     RequestCommand.GATTSetNotify,
     {
         MAC: string
@@ -171,6 +232,18 @@ export type Request =
     | GATTWriteRequest
     | ScanRequest
 
+// What `sendRequest` resolves with for each command, unless `resolveIf` picks something else.
+export interface RequestReplies {
+    [RequestCommand.Scan]: ScanResultUpdate
+    [RequestCommand.GATTConnect]: ConnectionStateUpdate
+    [RequestCommand.GATTDisconnect]: ConnectionStateUpdate
+    [RequestCommand.GATTRead]: GATTReadResponse
+    [RequestCommand.GATTSetNotify]: ResponseMessage
+    [RequestCommand.GATTWrite]: ResponseMessage
+}
+
+export type ReplyFor<R extends Request> = RequestReplies[R['command']]
+
 export interface RequestMessage<P = unknown> extends Message {
     command: RequestCommand
     params: P
@@ -197,6 +270,267 @@ export enum CharAddr {
     Calibration /*    */ = '0000a012-0000-1000-8000-00805f9b34fb', // R RW   Calibration Use this to adjust and read calibration
 }
 
+export const De1ServiceUUID = '0000a000-0000-1000-8000-00805f9b34fb'
+
+export enum MachineState {
+    Sleep = 0x00,
+    GoingToSleep = 0x01,
+    Idle = 0x02,
+    Busy = 0x03,
+    Espresso = 0x04,
+    Steam = 0x05,
+    HotWater = 0x06,
+    ShortCal = 0x07,
+    SelfTest = 0x08,
+    LongCal = 0x09,
+    Descale = 0x0a,
+    FatalError = 0x0b,
+    Init = 0x0c,
+    NoRequest = 0x0d,
+    SkipToNext = 0x0e,
+    HotWaterRinse = 0x0f,
+    SteamRinse = 0x10,
+    Refill = 0x11,
+    Clean = 0x12,
+    InBootLoader = 0x13,
+    AirPurge = 0x14,
+    SchedIdle = 0x15,
+}
+
+export enum MachineSubstate {
+    NoState = 0,
+    HeatWaterTank = 1,
+    HeatWaterHeater = 2,
+    StabilizeMixTemp = 3,
+    PreInfuse = 4,
+    Pour = 5,
+    Flush = 6,
+    Steaming = 7,
+    DescaleInit = 8,
+    DescaleFillGroup = 9,
+    DescaleReturn = 10,
+    DescaleGroup = 11,
+    DescaleSteam = 12,
+    CleanInit = 13,
+    CleanFillGroup = 14,
+    CleanSoak = 15,
+    CleanGroup = 16,
+    Refill = 17,
+    PausedSteam = 18,
+    UserNotPresent = 19,
+    Puffing = 20,
+}
+
+export interface VersionInfo {
+    apiVersion: number
+    release: number
+    commits: number
+    changes: number
+    sha: number
+}
+
+// T_Versions
+export interface Versions {
+    ble: VersionInfo
+    fw: VersionInfo
+}
+
+export interface StateInfo {
+    state: MachineState
+    substate: MachineSubstate
+}
+
+// T_ShotSample
+export interface ShotSample {
+    sampleTime: number
+    groupPressure: number
+    groupFlow: number
+    mixTemp: number
+    headTemp: number
+    setMixTemp: number
+    setHeadTemp: number
+    setGroupPressure: number
+    setGroupFlow: number
+    frameNumber: number
+    steamTemp: number
+}
+
+// T_Temperatures
+export interface Temperatures {
+    waterHeater: number
+    steamHeater: number
+    groupHead: number
+    coldWater: number
+    targetWaterHeater: number
+    targetSteamHeater: number
+    targetGroupHead: number
+    targetColdWater: number
+}
+
+// T_ShotSettings
+export interface ShotSettings {
+    steamSettings: number
+    targetSteamTemp: number
+    targetSteamLength: number
+    targetHotWaterTemp: number
+    targetHotWaterVol: number
+    targetHotWaterLength: number
+    targetEspressoVol: number
+    targetGroupTemp: number
+}
+
+export interface WaterLevels {
+    level: number
+    startFillLevel: number
+}
+
+export interface Calibration {
+    writeKey: number
+    calCommand: number
+    calTarget: number
+    de1ReportedValue: number
+    measuredValue: number
+}
+
+export interface MMRPayload {
+    length: number
+    address: number
+    data: Uint8Array
+}
+
+// Known memory-mapped registers, see `MMRRegisters` in `cafehub-client/mmr`.
+export enum MMRRegister {
+    CpuBoardModel = 'cpuBoardModel',
+    MachineModel = 'machineModel',
+    FirmwareBuild = 'firmwareBuild',
+    FanThreshold = 'fanThreshold',
+    TankTemperatureThreshold = 'tankTemperatureThreshold',
+    GHCInfo = 'ghcInfo',
+    GHCMode = 'ghcMode',
+    SteamFlow = 'steamFlow',
+    SteamHighFlowStart = 'steamHighFlowStart',
+    SerialNumber = 'serialNumber',
+    HeaterVoltage = 'heaterVoltage',
+    FlushTimeout = 'flushTimeout',
+    RefillKit = 'refillKit',
+}
+
+export interface MMRRegisterInfo {
+    address: number
+    // In bytes, a multiple of 4.
+    length: number
+    // Stored values are unsigned little-endian integers, `value * scale`. Defaults to 1.
+    scale?: number
+}
+
+export interface FWMapRequest {
+    windowIncrement: number
+    fwToErase: number
+    fwToMap: number
+    firstError: number
+}
+
+export interface FirmwareHeader {
+    checksum: number
+    boardMarker: number
+    version: number
+    byteCount: number
+    cpuBytes: number
+    dcSum: number
+    iv: Uint8Array
+    headerChecksum: number
+}
+
+export interface FirmwareImage {
+    header: FirmwareHeader
+    // The whole file, header included. It's what gets written to the machine.
+    data: Uint8Array
+}
+
+export interface ShotHeader {
+    headerVersion: number
+    numberOfFrames: number
+    numberOfPreinfuseFrames: number
+    minimumPressure: number
+    maximumFlow: number
+}
+
+export enum FrameFlag {
+    CtrlF = 0x01, // Flow control instead of pressure control
+    DoCompare = 0x02, // Exit the frame early when a condition is met
+    DcGt = 0x04, // The exit condition is "greater than" instead of "less than"
+    DcCompF = 0x08, // The exit condition compares flow instead of pressure
+    TMixTemp = 0x10, // Target the mix temperature instead of the basket temperature
+    Interpolate = 0x20, // Ramp to the target instead of jumping to it
+    IgnoreLimit = 0x40, // Ignore the minimum pressure and maximum flow from the header
+}
+
+export interface ShotFrame {
+    frameToWrite: number
+    flag: number
+    setVal: number
+    temp: number
+    frameLen: number
+    triggerVal: number
+    maxVol: number
+}
+
+// Extension frames are addressed with `frameToWrite` offset by 32.
+export interface ShotExtensionFrame {
+    frameToWrite: number
+    maxFlowOrPressure: number
+    maxFlowOrPressureRange: number
+}
+
+// The frame right after the last one carries the volume limit for the whole shot.
+export interface ShotTailFrame {
+    frameToWrite: number
+    maxTotalVolume: number
+}
+
+export type FrameWrite = ShotFrame | ShotExtensionFrame
+
+export interface CharValues {
+    [CharAddr.Versions]: Versions
+    [CharAddr.RequestedState]: MachineState
+    [CharAddr.SetTime]: Uint8Array
+    [CharAddr.ShotDirectory]: Uint8Array
+    [CharAddr.ReadFromMMR]: MMRPayload
+    [CharAddr.WriteToMMR]: MMRPayload
+    [CharAddr.ShotMapRequest]: Uint8Array
+    [CharAddr.DeleteShotRange]: Uint8Array
+    [CharAddr.FWMapRequest]: FWMapRequest
+    [CharAddr.Temperatures]: Temperatures
+    [CharAddr.ShotSettings]: ShotSettings
+    [CharAddr.Deprecated]: Uint8Array
+    [CharAddr.ShotSample]: ShotSample
+    [CharAddr.StateInfo]: StateInfo
+    [CharAddr.HeaderWrite]: ShotHeader
+    [CharAddr.FrameWrite]: FrameWrite
+    [CharAddr.WaterLevels]: WaterLevels
+    [CharAddr.Calibration]: Calibration
+}
+
+export interface Codec<T> {
+    decode: (data: Uint8Array) => T
+    encode: (value: T) => Uint8Array
+}
+
+export type CharChange<C extends CharAddr = CharAddr> = {
+    [K in C]: {
+        MAC: string
+        Char: K
+        value: CharValues[K]
+    }
+}[C]
+
+export type CharListener<C extends CharAddr = CharAddr> = (
+    value: CharValues[C],
+    change: CharChange<C>
+) => void
+
+export type Unsubscribe = () => Promise<void>
+
 export enum CafeHubState {
     Connected = 'connected',
     Connecting = 'connecting',
@@ -204,7 +538,7 @@ export enum CafeHubState {
 }
 
 export interface Defer {
-    resolve: (msg: UpdateMessage) => void
+    resolve: (msg: ReplyMessage) => void
     reject: (reason?: unknown) => void
 }
 
@@ -213,20 +547,577 @@ export type Requests = Record<string, Defer>
 export enum CafeHubEvent {
     CharChange = 'charChange',
     Connect = 'connect',
+    ConnectionDead = 'connectionDead',
     Data = 'data',
+    DecodedCharChange = 'decodedCharChange',
     DeviceFound = 'deviceFound',
+    DeviceLost = 'deviceLost',
+    DeviceUpdate = 'deviceUpdate',
     Disconnect = 'disconnect',
     Error = 'error',
+    Metrics = 'metrics',
+    ProtocolError = 'protocolError',
+    ReconnectFailed = 'reconnectFailed',
+    Reconnecting = 'reconnecting',
+    ResponseMessage = 'responseMessage',
+    SessionRestoreFailed = 'sessionRestoreFailed',
+    SessionRestored = 'sessionRestored',
     StateChange = 'stateChange',
     Teardown = 'teardown',
     UpdateMessage = 'updateMessage',
 }
 
+// What `events` and `waitFor` yield for each event (its first argument).
+export interface CafeHubEventPayload {
+    [CafeHubEvent.CharChange]: GATTNotifyUpdate
+    [CafeHubEvent.Connect]: undefined
+    [CafeHubEvent.ConnectionDead]: ConnectionDeadEvent
+    [CafeHubEvent.Data]: Record<string, unknown>
+    [CafeHubEvent.DecodedCharChange]: CharChange
+    [CafeHubEvent.DeviceFound]: Device
+    [CafeHubEvent.DeviceLost]: Device
+    [CafeHubEvent.DeviceUpdate]: Device
+    [CafeHubEvent.Disconnect]: undefined | CloseEventLike
+    [CafeHubEvent.Error]: Error
+    [CafeHubEvent.Metrics]: MetricsSnapshot
+    [CafeHubEvent.ProtocolError]: ProtocolErrorEvent
+    [CafeHubEvent.ReconnectFailed]: ReconnectFailedEvent
+    [CafeHubEvent.Reconnecting]: ReconnectingEvent
+    [CafeHubEvent.ResponseMessage]: ResponseMessage
+    [CafeHubEvent.SessionRestoreFailed]: SessionRestoreFailedEvent
+    [CafeHubEvent.SessionRestored]: Session
+    [CafeHubEvent.StateChange]: CafeHubState
+    [CafeHubEvent.Teardown]: undefined
+    [CafeHubEvent.UpdateMessage]: UpdateMessage
+}
+
+export interface EventsOptions<T> {
+    filter?: (value: T) => boolean
+    signal?: AbortSignal
+}
+
+export interface WaitForOptions {
+    timeout?: number
+    signal?: AbortSignal
+}
+
+export enum De1Event {
+    Change = 'change',
+    ConnectionStateChange = 'connectionStateChange',
+    ShotSample = 'shotSample',
+    StateChange = 'stateChange',
+    Temperatures = 'temperatures',
+}
+
+export interface ShotSamplePoint {
+    // Milliseconds since the shot started.
+    elapsed: number
+    substate: MachineSubstate
+    frameNumber: number
+    groupPressure: number
+    groupFlow: number
+    mixTemp: number
+    headTemp: number
+    setGroupPressure: number
+    setGroupFlow: number
+    setMixTemp: number
+    setHeadTemp: number
+    // Water dispensed so far, in ml (integrated flow).
+    volume: number
+}
+
+export interface ShotSummary {
+    duration: number
+    preinfusionDuration: number
+    peakPressure: number
+    peakFlow: number
+    totalVolume: number
+    preinfusionVolume: number
+}
+
+export interface Shot {
+    MAC: string
+    startedAt: number
+    endedAt: number
+    samples: ShotSamplePoint[]
+    summary: ShotSummary
+}
+
+export enum ShotRecorderEvent {
+    // A shot got cut off by losing the hub or the machine. There's no `End` for it.
+    Discard = 'discard',
+    End = 'end',
+    Sample = 'sample',
+    Start = 'start',
+}
+
+// What the app knows about a shot that the machine doesn't.
+export interface ShotMetadata {
+    profile?: Profile
+    // Falls back to `profile.title`.
+    profileTitle?: string
+    // Grams of ground coffee in.
+    dose?: number
+    // Grams of espresso out.
+    yield?: number
+    beanBrand?: string
+    beanType?: string
+    grinderModel?: string
+    grinderSetting?: string
+    notes?: string
+    // 0 to 100.
+    enjoyment?: number
+}
+
+export enum FirmwareUploaderEvent {
+    Progress = 'progress',
+}
+
+export interface FirmwareProgressEvent {
+    // Bytes acknowledged by the machine so far.
+    written: number
+    total: number
+}
+
+export interface FirmwareUploadOptions {
+    abortSignal?: AbortSignal
+    // How many chunk writes can await their responses at once. Defaults to 4.
+    window?: number
+    // How long to wait for the machine to erase its flash, in milliseconds.
+    eraseTimeout?: number
+    // How long to wait for the machine to check the written image, in milliseconds.
+    verifyTimeout?: number
+}
+
+export enum FramePump {
+    Flow = 'flow',
+    Pressure = 'pressure',
+}
+
+export enum FrameSensor {
+    // Basket (coffee) temperature.
+    Coffee = 'coffee',
+    // Mix (water) temperature.
+    Water = 'water',
+}
+
+export enum FrameTransition {
+    Fast = 'fast',
+    Smooth = 'smooth',
+}
+
+export interface FrameExitCondition {
+    type: FramePump
+    condition: 'over' | 'under'
+    value: number
+}
+
+// Caps pressure on flow frames (or flow on pressure frames). Written as an extension frame.
+export interface FrameLimiter {
+    value: number
+    range: number
+}
+
+export interface ProfileFrame {
+    name?: string
+    pump: FramePump
+    // Target pressure (bar) or flow (ml/s), depending on `pump`.
+    target: number
+    temperature: number
+    sensor: FrameSensor
+    transition: FrameTransition
+    seconds: number
+    volume?: number
+    exit?: FrameExitCondition
+    limiter?: FrameLimiter
+}
+
+export interface Profile {
+    title: string
+    author?: string
+    notes?: string
+    beverageType?: string
+    frames: ProfileFrame[]
+    preinfuseFrameCount?: number
+    minimumPressure?: number
+    maximumFlow?: number
+    // Volume limit for the whole shot (ml), 0 for none.
+    targetVolume?: number
+    // Not used by the machine. Scales stop shots by weight.
+    targetWeight?: number
+    tankTemperature?: number
+}
+
+export enum LegacyProfileType {
+    Pressure = 'settings_2a',
+    Flow = 'settings_2b',
+    Advanced = 'settings_2c',
+    AdvancedWithLimits = 'settings_2c2',
+}
+
+// What simple (pressure and flow) profiles are made of in de1app.
+export interface SimpleProfileSettings {
+    temperatures: [number, number, number, number]
+    preinfusionTime: number
+    preinfusionFlowRate: number
+    preinfusionStopPressure: number
+    holdTime: number
+    declineTime: number
+    // Pressure profiles.
+    espressoPressure: number
+    pressureEnd: number
+    maximumFlow: number
+    maximumFlowRange: number
+    // Flow profiles.
+    flowHold: number
+    flowDecline: number
+    maximumPressure: number
+    maximumPressureRange: number
+}
+
+export interface EncodedProfile {
+    header: Uint8Array
+    // Shot frames, then extension frames, then the tail frame. The order they're written in.
+    frames: Uint8Array[]
+}
+
+export interface SessionNotification {
+    MAC: string
+    Char: string
+}
+
+// GATT connections and notifications the client re-establishes after reconnecting to the hub.
+export interface Session {
+    devices: string[]
+    notifications: SessionNotification[]
+}
+
+export interface SessionRestoreFailure {
+    MAC: string
+    Char?: string
+    error: unknown
+}
+
+export interface SessionRestoreFailedEvent {
+    session: Session
+    failures: SessionRestoreFailure[]
+}
+
 export interface SendOptions {
     timeout?: number
-    resolveIf?: (msg: UpdateMessage) => boolean
+    // Only used with the scheduler. Higher goes first, see `RequestPriority`.
+    priority?: number
+    resolveIf?: (msg: ReplyMessage) => boolean
+    // Rejects the request with an `AbortError` once aborted.
+    signal?: AbortSignal
+}
+
+export interface CloseEventLike {
+    code: number
+    reason: string
+    wasClean: boolean
+}
+
+export function isCloseEvent(e: unknown): e is CloseEventLike {
+    return (
+        e === Object(e) &&
+        typeof (e as CloseEventLike).code === 'number' &&
+        typeof (e as CloseEventLike).wasClean === 'boolean'
+    )
+}
+
+export interface MessageEventLike {
+    data: unknown
+}
+
+// The subset of the WHATWG `WebSocket` the client relies on. Browser sockets and `ws` sockets
+// both fit.
+export interface WebSocketLike {
+    readonly url: string
+    send: (data: string) => void
+    close: (code?: number, reason?: string) => void
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    addEventListener: (type: string, listener: (e: any) => void) => void
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    removeEventListener: (type: string, listener: (e: any) => void) => void
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike
+
+// One line of a traffic recording. `t` is in milliseconds since the recording started.
+export type TrafficEntry =
+    | { t: number; type: 'open'; url: string }
+    | { t: number; type: 'in' | 'out'; data: string }
+    | { t: number; type: 'close'; code: number; reason: string }
+
+export interface TrafficRecorderOptions {
+    // The transport to record. Defaults to the global `WebSocket`.
+    webSocketFactory?: WebSocketFactory
+    // Gets every entry as it's recorded, e.g. to append it to a file.
+    onEntry?: (entry: TrafficEntry) => void
+    now?: () => number
+}
+
+export interface TrafficReplayOptions {
+    // 1 replays at recorded speed, 10 ten times faster, `Infinity` without waiting.
+    speed?: number
+}
+
+export enum RequestOutcome {
+    Success = 'success',
+    Failure = 'failure',
+    Timeout = 'timeout',
+}
+
+export interface MetricsCollectorOptions {
+    // Upper bounds of the request duration histogram buckets, in milliseconds.
+    buckets?: number[]
+    // Notification rates are averaged over this many milliseconds. Defaults to 5 seconds.
+    rateWindow?: number
+    now?: () => number
+}
+
+export interface MetricsOptions extends MetricsCollectorOptions {
+    // Emit `CafeHubEvent.Metrics` this often (in milliseconds) while connected or connecting.
+    interval?: number
+}
+
+export interface HistogramSnapshot {
+    // Cumulative, like Prometheus: each bucket counts everything up to `le`.
+    buckets: {
+        le: number
+        count: number
+    }[]
+    sum: number
+    count: number
+}
+
+export interface RequestMetrics {
+    // Round-trip times of requests that got a reply, in milliseconds.
+    duration: HistogramSnapshot
+    outcomes: Record<RequestOutcome, number>
+}
+
+export interface NotificationMetrics {
+    count: number
+    // Per second, over the last `rateWindow`.
+    rate: number
+}
+
+export interface MetricsSnapshot {
+    // When the snapshot was taken, and when counting started.
+    at: number
+    since: number
+    requests: Partial<Record<RequestCommand, RequestMetrics>>
+    // By characteristic.
+    notifications: Record<string, NotificationMetrics>
+    framesIn: number
+    framesOut: number
+    reconnectAttempts: number
+}
+
+export interface PrometheusOptions {
+    // Defaults to `cafehub`.
+    prefix?: string
+    // Added to every sample, e.g. `{ hub: 'kitchen' }`.
+    labels?: Record<string, string>
+}
+
+export type BackoffStrategy = 'exponential' | 'linear' | ((attempt: number) => number)
+
+export interface ReconnectPolicy {
+    // Defaults to `linear`. Custom strategies get the attempt number (starting at 1).
+    strategy?: BackoffStrategy
+    initialDelay?: number
+    maxDelay?: number
+    // Multiplier for the `exponential` strategy.
+    factor?: number
+    // Randomizes each delay by up to ±`jitter` of its value, e.g. 0.2 for ±20%.
+    jitter?: number
+    maxAttempts?: number
+    maxElapsedTime?: number
+    shouldRetry?: (closeEvent: CloseEventLike, attempt: number) => boolean
+}
+
+export interface ReconnectingEvent {
+    attempt: number
+    delay: number
+    closeEvent: CloseEventLike
+}
+
+export interface ReconnectFailedEvent {
+    attempts: number
+    closeEvent: CloseEventLike
+}
+
+export interface HeartbeatOptions {
+    // How often to check on the socket.
+    interval: number
+    // How long the socket may stay silent before it's considered dead.
+    timeout: number
+    // Called when the socket has been silent for `interval`, to provoke a reply. Without it only
+    // unsolicited traffic (e.g. notifications) keeps the socket alive.
+    probe?: () => unknown
+}
+
+export interface SchedulerOptions {
+    // How many requests may be in flight at once. Requests to the same MAC never overlap.
+    concurrency?: number
+    // How many requests may wait in the queue. Overflow evicts the lowest priority ones.
+    maxQueueSize?: number
+    // How long a request may wait in the queue before it's rejected with a `TimeoutError`.
+    maxQueueAge?: number
+}
+
+export enum RequestPriority {
+    Low = -1,
+    Normal = 0,
+    High = 1,
+}
+
+export enum ValidationMode {
+    // Invalid messages are reported and dropped. Requests they answer fail with a `ProtocolError`.
+    Strict = 'strict',
+    // Invalid messages are reported and handled anyway.
+    Lenient = 'lenient',
+}
+
+export interface ProtocolErrorEvent {
+    // The frame as received.
+    raw: string
+    issues: string[]
+}
+
+export interface ConnectionDeadEvent {
+    idleFor: number
+}
+
+export enum LogLevel {
+    Debug = 'debug',
+    Info = 'info',
+    Warn = 'warn',
+    Error = 'error',
+}
+
+export interface LogContext {
+    requestId?: number
+    command?: RequestCommand
+    MAC?: string
+    Char?: string
+    state?: CafeHubState
+    [key: string]: unknown
+}
+
+// `console` fits, and so do most logging libraries.
+export type Logger = Record<LogLevel, (message: string, context?: LogContext) => void>
+
+export interface ClientCounters {
+    // Frames received and sent.
+    framesIn: number
+    framesOut: number
+    // Frames we received and didn't handle, e.g. replies to unknown requests.
+    framesDropped: number
+    protocolErrors: number
+    requests: number
+    failedRequests: number
+    timedOutRequests: number
+    reconnectAttempts: number
+}
+
+export interface PendingRequestInfo {
+    id: number
+    command: RequestCommand
+    MAC?: string
+    Char?: string
+    // Milliseconds since the request went out.
+    age: number
+}
+
+export interface Diagnostics {
+    state: CafeHubState
+    url: undefined | string
+    pendingRequests: PendingRequestInfo[]
+    // Milliseconds since the socket last heard anything, if it's open.
+    idleFor: undefined | number
+    devices: number
+    subscriptions: number
+    counters: ClientCounters
+}
+
+export interface ClientOptions {
+    webSocketFactory?: WebSocketFactory
+    // Reconnect after the socket closes on its own. Defaults to `true` (default policy).
+    autoReconnect?: boolean | ReconnectPolicy
+    heartbeat?: HeartbeatOptions
+    // Default `timeout` for `sendRequest`. No timeout by default.
+    requestTimeout?: number
+    // Queue requests (also while connecting) and run them one at a time per device.
+    scheduler?: boolean | SchedulerOptions
+    // How to treat malformed messages from the hub. Defaults to `ValidationMode.Lenient`.
+    validation?: ValidationMode
+    logger?: Logger
+    // Collect request, notification and connection metrics, see `getMetrics`.
+    metrics?: boolean | MetricsOptions
+}
+
+export interface HubDescriptor {
+    id: string
+    url: string
+}
+
+// Finds hubs, e.g. through mDNS. Called on every `CafeHubPool#discover`.
+export type HubResolver = () => Promise<HubDescriptor[]>
+
+export interface CafeHubPoolOptions {
+    hubs?: HubDescriptor[]
+    resolvers?: HubResolver[]
+    clientOptions?: ClientOptions | ((hub: HubDescriptor) => ClientOptions)
+    connectOptions?: ConnectOptions
+}
+
+export enum CafeHubPoolEvent {
+    HubAdded = 'hubAdded',
+    HubRemoved = 'hubRemoved',
+}
+
+export interface PoolDevice extends Device {
+    hubId: string
+}
+
+export interface PoolSendOptions extends SendOptions {
+    // Skips routing by `params.MAC`. Required for requests without one, like `Scan`.
+    hubId?: string
+}
+
+export interface ScanOptions {
+    // How long the hub should scan for, in milliseconds. Defaults to 5 seconds.
+    timeout?: number
+    // Exact name, or a pattern the name has to match.
+    nameFilter?: string | RegExp
+    // Devices have to advertise at least one of these.
+    serviceUUIDs?: string[]
+    // Stops listening. The hub finishes its scan regardless.
+    signal?: AbortSignal
+}
+
+// Yields matching devices as they're found, once each.
+export interface ScanSession extends AsyncIterable<Device> {
+    // Every matching device, once the scan is over.
+    devices: Promise<Device[]>
+}
+
+export interface GATTWriteOptions extends SendOptions {
+    // Ask the device to acknowledge the write (`RR`). Defaults to `true`.
+    withResponse?: boolean
+}
+
+export interface UploadProfileOptions extends SendOptions {
+    // Read each characteristic back after writing it and compare. Defaults to `true`.
+    verify?: boolean
 }
 
 export interface ConnectOptions {
     retry?: boolean | number
+    // Implies `retry: true`, unless `retry` says otherwise.
+    reconnectPolicy?: ReconnectPolicy
 }
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import backoff from './backoff'
+
+describe('backoff', () => {
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('grows linearly by default', () => {
+        expect([1, 2, 3].map((attempt) => backoff(attempt))).toEqual([250, 500, 750])
+    })
+
+    it('grows exponentially', () => {
+        expect(
+            [1, 2, 3, 4].map((attempt) =>
+                backoff(attempt, {
+                    strategy: 'exponential',
+                    initialDelay: 100,
+                    factor: 3,
+                })
+            )
+        ).toEqual([100, 300, 900, 2700])
+    })
+
+    it('takes custom strategies', () => {
+        expect(
+            backoff(3, {
+                strategy: (attempt) => attempt * 7,
+            })
+        ).toBe(21)
+    })
+
+    it('caps delays at maxDelay', () => {
+        expect(
+            backoff(10, {
+                initialDelay: 1000,
+                maxDelay: 3000,
+            })
+        ).toBe(3000)
+    })
+
+    it('randomizes delays by up to the jitter', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0)
+
+        expect(
+            backoff(1, {
+                initialDelay: 1000,
+                jitter: 0.2,
+            })
+        ).toBe(800)
+    })
+
+    it("doesn't let the jitter push delays past maxDelay", () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.99)
+
+        expect(
+            backoff(10, {
+                initialDelay: 1000,
+                maxDelay: 3000,
+                jitter: 0.5,
+            })
+        ).toBe(3000)
+    })
+})
@@ -0,0 +1,32 @@
+import { ReconnectPolicy } from '../types'
+
+export default function backoff(
+    attempt: number,
+    {
+        strategy = 'linear',
+        initialDelay = 250,
+        maxDelay = 10000,
+        factor = 2,
+        jitter = 0,
+    }: ReconnectPolicy = {}
+) {
+    let ms: number
+
+    switch (strategy) {
+        case 'linear':
+            ms = initialDelay * attempt
+            break
+        case 'exponential':
+            ms = initialDelay * factor ** (attempt - 1)
+            break
+        default:
+            ms = strategy(attempt)
+    }
+
+    if (jitter > 0) {
+        ms += ms * jitter * (Math.random() * 2 - 1)
+    }
+
+    // After the jitter, so that it never goes past `maxDelay`.
+    return Math.max(0, Math.round(Math.min(ms, maxDelay)))
+}
@@ -1,14 +1,24 @@
 import AbortError from '../errors/AbortError'
+import { WebSocketFactory, WebSocketLike } from '../types'
 import defer from './defer'
 
+function defaultWebSocketFactory(url: string): WebSocketLike {
+    return new WebSocket(url)
+}
+
 export default async function connect(
     url: string,
     {
         onError: onErrorOpt,
         abortSignal,
-    }: { onError?: (e: Event) => void; abortSignal?: AbortSignal } = {}
+        webSocketFactory = defaultWebSocketFactory,
+    }: {
+        onError?: (e: unknown) => void
+        abortSignal?: AbortSignal
+        webSocketFactory?: WebSocketFactory
+    } = {}
 ) {
-    const ws = new WebSocket(url)
+    const ws = webSocketFactory(url)
 
     const { resolve, reject, promise } = await defer()
 
@@ -16,7 +26,7 @@ export default async function connect(
         resolve()
     }
 
-    function onError(e: Event) {
+    function onError(e: unknown) {
         if (typeof onErrorOpt === 'function') {
             onErrorOpt(e)
         }
@@ -45,11 +55,18 @@ export default async function connect(
     } catch (e) {
         ws.removeEventListener('error', onError)
 
+        if (e instanceof AbortError) {
+            // Don't leave a half-open socket behind, some runtimes keep the process alive for it.
+            ws.close()
+        }
+
         throw e
     } finally {
         ws.removeEventListener('open', onOpen)
 
         ws.removeEventListener('close', reject)
+
+        abortSignal?.removeEventListener('abort', onAbort)
     }
 
     return ws
@@ -11,7 +11,8 @@ export default async function delay(
 ) {
     const { resolve, reject, promise } = await defer()
 
-    const timeoutId = window.setTimeout(resolve, ms)
+    // Global timers (not `window.*`) so that it works in Node and in workers, too.
+    const timeoutId = setTimeout(resolve, ms)
 
     function onAbort() {
         reject(new AbortError())
@@ -28,8 +29,10 @@ export default async function delay(
     try {
         await promise
     } catch (e) {
-        window.clearTimeout(timeoutId)
+        clearTimeout(timeoutId)
 
         throw e
+    } finally {
+        abortSignal?.removeEventListener('abort', onAbort)
     }
 }
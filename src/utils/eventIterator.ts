@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events'
+import AbortError from '../errors/AbortError'
+
+interface Options<T> {
+    filter?: (value: T) => boolean
+    signal?: AbortSignal
+    // Ends the iteration gracefully, e.g. on teardown.
+    endEvent?: string
+}
+
+interface Pending<T> {
+    resolve: (result: IteratorResult<T>) => void
+    reject: (reason?: unknown) => void
+}
+
+// Turns an event into an async iterable of its first argument. Values are buffered until read.
+// Aborting makes the next read throw an `AbortError`.
+export default function eventIterator<T>(
+    emitter: EventEmitter,
+    eventName: string,
+    { filter, signal, endEvent }: Options<T> = {}
+): AsyncIterableIterator<T> {
+    const buffer: T[] = []
+
+    let pending: undefined | Pending<T>
+
+    let finished = false
+
+    let failure: undefined | { error: unknown }
+
+    function onEvent(value: T) {
+        if (filter && !filter(value)) {
+            return
+        }
+
+        if (!pending) {
+            return void buffer.push(value)
+        }
+
+        const { resolve } = pending
+
+        pending = undefined
+
+        resolve({
+            value,
+            done: false,
+        })
+    }
+
+    function finish(error?: unknown) {
+        if (finished) {
+            return
+        }
+
+        finished = true
+
+        emitter.off(eventName, onEvent)
+
+        if (endEvent) {
+            emitter.off(endEvent, onEnd)
+        }
+
+        signal?.removeEventListener('abort', onAbort)
+
+        if (error) {
+            buffer.length = 0
+
+            failure = { error }
+        }
+
+        if (!pending) {
+            return
+        }
+
+        const { resolve, reject } = pending
+
+        pending = undefined
+
+        if (failure) {
+            reject(failure.error)
+
+            failure = undefined
+        } else {
+            resolve({
+                value: undefined,
+                done: true,
+            })
+        }
+    }
+
+    function onEnd() {
+        finish()
+    }
+
+    function onAbort() {
+        finish(new AbortError())
+    }
+
+    if (signal?.aborted) {
+        onAbort()
+    } else {
+        emitter.on(eventName, onEvent)
+
+        if (endEvent) {
+            emitter.on(endEvent, onEnd)
+        }
+
+        signal?.addEventListener('abort', onAbort)
+    }
+
+    return {
+        next() {
+            if (buffer.length) {
+                return Promise.resolve({
+                    value: buffer.shift() as T,
+                    done: false,
+                })
+            }
+
+            if (failure) {
+                const { error } = failure
+
+                failure = undefined
+
+                return Promise.reject(error)
+            }
+
+            if (finished) {
+                return Promise.resolve({
+                    value: undefined,
+                    done: true,
+                })
+            }
+
+            return new Promise((resolve, reject) => {
+                pending = {
+                    resolve,
+                    reject,
+                }
+            })
+        },
+        return() {
+            finish()
+
+            buffer.length = 0
+
+            return Promise.resolve({
+                value: undefined,
+                done: true,
+            })
+        },
+        [Symbol.asyncIterator]() {
+            return this
+        },
+    }
+}
@@ -0,0 +1,11 @@
+export default function fromBase64(data: string) {
+    const binary = atob(data)
+
+    const bytes = new Uint8Array(binary.length)
+
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i)
+    }
+
+    return bytes
+}
@@ -1,3 +1,8 @@
+export { default as backoff } from './backoff'
 export { default as connect } from './connect'
 export { default as defer } from './defer'
 export { default as delay } from './delay'
+export { default as eventIterator } from './eventIterator'
+export { default as fromBase64 } from './fromBase64'
+export { default as toBase64 } from './toBase64'
+export { default as waitForEvent } from './waitForEvent'
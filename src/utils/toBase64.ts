@@ -0,0 +1,11 @@
+export default function toBase64(data: Uint8Array | ArrayBuffer) {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+
+    let binary = ''
+
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i])
+    }
+
+    return btoa(binary)
+}
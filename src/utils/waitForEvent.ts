@@ -0,0 +1,73 @@
+import { EventEmitter } from 'events'
+import AbortError from '../errors/AbortError'
+import TimeoutError from '../errors/TimeoutError'
+
+interface Options {
+    timeout?: number
+    signal?: AbortSignal
+    // Rejects with an `AbortError` when emitted, e.g. on teardown.
+    abortEvent?: string
+}
+
+// Resolves with the first argument of the first `eventName` event that satisfies `predicate`.
+// Listeners are in place by the time it returns, so events emitted right after are caught.
+export default function waitForEvent<T>(
+    emitter: EventEmitter,
+    eventName: string,
+    predicate: (value: T) => boolean = () => true,
+    { timeout, signal, abortEvent }: Options = {}
+) {
+    return new Promise<T>((resolve, reject) => {
+        let timeoutId: undefined | ReturnType<typeof setTimeout>
+
+        function cleanup() {
+            clearTimeout(timeoutId)
+
+            emitter.off(eventName, onEvent)
+
+            if (abortEvent) {
+                emitter.off(abortEvent, onAbort)
+            }
+
+            signal?.removeEventListener('abort', onAbort)
+        }
+
+        function fail(error: unknown) {
+            cleanup()
+
+            reject(error)
+        }
+
+        function onEvent(value: T) {
+            try {
+                if (predicate(value)) {
+                    cleanup()
+
+                    resolve(value)
+                }
+            } catch (e) {
+                fail(e)
+            }
+        }
+
+        function onAbort() {
+            fail(new AbortError())
+        }
+
+        if (signal?.aborted) {
+            return void onAbort()
+        }
+
+        emitter.on(eventName, onEvent)
+
+        if (abortEvent) {
+            emitter.on(abortEvent, onAbort)
+        }
+
+        signal?.addEventListener('abort', onAbort)
+
+        if (timeout !== undefined) {
+            timeoutId = setTimeout(() => void fail(new TimeoutError()), Math.max(0, timeout))
+        }
+    })
+}